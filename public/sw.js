@@ -0,0 +1,155 @@
+/**
+ * Service worker for the storefront.
+ *
+ * Keeps the app shell, store details, product lists and product images, so a
+ * storefront already visited opens and can be browsed on a poor or missing
+ * connection. Orders are never cached: placing one offline is queued by the
+ * page and sent when the connection returns.
+ *
+ * Served from the site root without a content hash; nginx sends it with
+ * no-cache so a new deploy's worker is picked up on the next visit.
+ */
+
+// Bump to drop every cache from the previous worker on activate
+const VERSION = 'v1';
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+const API_CACHE = `api-${VERSION}`;
+const IMAGE_CACHE = `images-${VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, ASSET_CACHE, API_CACHE, IMAGE_CACHE];
+
+const SHELL_URLS = ['/index.html', '/manifest.webmanifest', '/a-quickstore.png', '/accurify-icon.svg'];
+
+// Hashed bundles pile up across deploys; a few builds' worth is plenty
+const MAX_ASSETS = 60;
+const MAX_API_RESPONSES = 200;
+// Product images from other origins are opaque, and browsers count each one
+// as several MB against the quota, so keep this small
+const MAX_IMAGES = 80;
+// On a slow connection, fall back to the saved copy rather than keep waiting
+const API_TIMEOUT_MS = 5000;
+
+// Public store endpoints worth keeping: the directory, a store, its products,
+// categories and product pages. Orders, payments and time-slot availability
+// must always be live.
+const CACHEABLE_API = /\/public\/store(\/[^/]+(\/(products|categories|product\/[^/]+))?)?\/?$/;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((names) => Promise.all(
+                names.filter((name) => !CURRENT_CACHES.includes(name)).map((name) => caches.delete(name))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+/** Drop the oldest entries beyond the limit; cache keys come back in insertion order */
+async function trimCache(cacheName, maxEntries) {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+async function putInCache(cacheName, request, response, maxEntries) {
+    const cache = await caches.open(cacheName);
+    // Re-adding moves the entry to the back, so trimming drops the least recently fetched
+    await cache.delete(request);
+    await cache.put(request, response);
+    if (maxEntries) await trimCache(cacheName, maxEntries);
+}
+
+/** Pages: always the latest shell when online, the saved one when not */
+async function handleNavigation(request) {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put('/index.html', response.clone());
+        }
+        return response;
+    } catch {
+        const cached = await caches.match('/index.html');
+        return cached || Response.error();
+    }
+}
+
+/** Hashed bundles never change, so a saved copy is always right */
+async function cacheFirst(request, cacheName, maxEntries) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) await putInCache(cacheName, request, response.clone(), maxEntries);
+    return response;
+}
+
+/**
+ * Store data: fresh from the network when it answers in time, otherwise the
+ * saved copy. Failed responses aren't saved, so a 404 or 500 never replaces
+ * good data.
+ */
+async function networkFirst(request) {
+    const network = fetch(request).then(async (response) => {
+        if (response.ok) await putInCache(API_CACHE, request, response.clone(), MAX_API_RESPONSES);
+        return response;
+    });
+    // Settled later if the cache answers first
+    network.catch(() => undefined);
+
+    const timeout = new Promise((resolve) => setTimeout(resolve, API_TIMEOUT_MS));
+    try {
+        const response = await Promise.race([network, timeout]);
+        if (response) return response;
+    } catch {
+        // Offline; try the cache
+    }
+    const cached = await caches.match(request, { cacheName: API_CACHE });
+    // Nothing saved: keep waiting on the network, or fail as it did
+    return cached || network;
+}
+
+/** Images: show the saved copy at once and refresh it in the background */
+async function staleWhileRevalidate(event, request) {
+    const cached = await caches.match(request, { cacheName: IMAGE_CACHE });
+    const network = fetch(request).then(async (response) => {
+        if (response.ok || response.type === 'opaque') {
+            await putInCache(IMAGE_CACHE, request, response.clone(), MAX_IMAGES);
+        }
+        return response;
+    });
+    if (cached) {
+        event.waitUntil(network.catch(() => undefined));
+        return cached;
+    }
+    return network;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handleNavigation(request));
+        return;
+    }
+    if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+        event.respondWith(cacheFirst(request, ASSET_CACHE, MAX_ASSETS));
+        return;
+    }
+    if (CACHEABLE_API.test(url.pathname)) {
+        event.respondWith(networkFirst(request));
+        return;
+    }
+    if (request.destination === 'image') {
+        event.respondWith(staleWhileRevalidate(event, request));
+    }
+});
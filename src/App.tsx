@@ -1,10 +1,13 @@
 import { Routes, Route, Navigate, useParams } from 'react-router-dom';
 import * as Sentry from '@sentry/react';
+import type { ReactNode } from 'react';
 import { PublicStorefrontPage } from '@/pages/PublicStorefrontPage';
 import { StoreDirectoryPage } from '@/pages/StoreDirectoryPage';
 import { ProductDetailPage } from '@/pages/ProductDetailPage';
 import { OrderTrackingPage } from '@/pages/OrderTrackingPage';
 import { CartProvider } from '@/context/CartContext';
+import { StoreCurrencyProvider } from '@/context/StoreCurrencyContext';
+import { useStore } from '@/services/api/public-store.queries';
 import './App.scss'
 
 // Wrapper component for individual store page
@@ -17,16 +20,34 @@ function StorePage() {
   );
 }
 
+// Amounts on the page are shown in the store's currency, naira until it loads
+function StoreCurrency({ storeSlug, children }: { storeSlug?: string; children: ReactNode }) {
+  const { data: storeResponse } = useStore(storeSlug);
+  return <StoreCurrencyProvider currency={storeResponse?.data?.currency}>{children}</StoreCurrencyProvider>;
+}
+
 // Wrapper component for product detail page
 function ProductPage() {
   const { storeSlug } = useParams<{ storeSlug: string }>();
   return (
     <CartProvider storeSlug={storeSlug}>
-      <ProductDetailPage />
+      <StoreCurrency storeSlug={storeSlug}>
+        <ProductDetailPage />
+      </StoreCurrency>
     </CartProvider>
   );
 }
 
+// Wrapper component for order tracking page
+function OrderPage() {
+  const { storeSlug } = useParams<{ storeSlug: string }>();
+  return (
+    <StoreCurrency storeSlug={storeSlug}>
+      <OrderTrackingPage />
+    </StoreCurrency>
+  );
+}
+
 function App() {
   return (
     <Sentry.ErrorBoundary
@@ -55,11 +76,12 @@ function App() {
         {/* Landing page - lists all stores */}
         <Route path="/" element={<StoreDirectoryPage />} />
         {/* Order tracking page */}
-        <Route path="/:storeSlug/orders/:orderNumber" element={<OrderTrackingPage />} />
+        <Route path="/:storeSlug/orders/:orderNumber" element={<OrderPage />} />
         {/* Product detail pages */}
         <Route path="/:storeSlug/products/:productSlug" element={<ProductPage />} />
-        {/* Individual store pages */}
+        {/* Individual store pages, whole catalogue or one category */}
         <Route path="/:slug" element={<StorePage />} />
+        <Route path="/:slug/c/:category" element={<StorePage />} />
         {/* Fallback */}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import './LazyImage.scss';
+
+interface LazyImageProps {
+  src: string;
+  alt: string;
+  /** Sizes the placeholder box; the image fills it, so nothing moves when it arrives */
+  className?: string;
+}
+
+/**
+ * Image fetched only as it nears the viewport, fading in over a placeholder
+ * of the same size. Give it a key of the src so a new image starts hidden.
+ */
+export function LazyImage({ src, alt, className = '' }: LazyImageProps) {
+  const [loaded, setLoaded] = useState(false);
+
+  return (
+    <div className={`lazy-image ${loaded ? 'lazy-image--loaded' : ''} ${className}`}>
+      <img
+        src={src}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+        className="lazy-image__img"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { Select, SelectItem } from '@carbon/react';
+import type { Product } from '@/types/product.types';
+import { isOptionValueAvailable } from '@/utils/product-variants';
+import type { VariantSelection } from '@/utils/product-variants';
+import './VariantPicker.scss';
+
+interface VariantPickerProps {
+  product: Product;
+  selection: VariantSelection;
+  onChange: (selection: VariantSelection) => void;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * One dropdown per option axis. Values that are sold out with the other current
+ * choices stay selectable (another combination may have them) but are marked.
+ */
+export function VariantPicker({ product, selection, onChange, size = 'md' }: VariantPickerProps) {
+  if (!product.options?.length) return null;
+
+  return (
+    <div className={`variant-picker variant-picker--${size}`}>
+      {product.options.map((option) => (
+        <Select
+          key={option.name}
+          id={`variant-${product.id}-${option.name}`}
+          labelText={option.name}
+          hideLabel={size === 'sm'}
+          size={size}
+          value={selection[option.name] ?? ''}
+          onChange={(e) => onChange({ ...selection, [option.name]: e.target.value })}
+        >
+          {!selection[option.name] && <SelectItem value="" text={`Choose ${option.name.toLowerCase()}`} disabled />}
+          {option.values.map((value) => {
+            const available = isOptionValueAvailable(product, selection, option.name, value);
+            return (
+              <SelectItem key={value} value={value} text={available ? value : `${value} (sold out)`} />
+            );
+          })}
+        </Select>
+      ))}
+    </div>
+  );
+}
+
+export default VariantPicker;
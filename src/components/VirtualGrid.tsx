@@ -0,0 +1,144 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { getGridHeight, getRowCount, getVisibleRows } from '@/utils/virtual-grid';
+import './VirtualGrid.scss';
+
+export interface GridLayout {
+  columns: number;
+  gap: number;
+}
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  /** Columns and gap for the grid's current width */
+  getLayout: (width: number) => GridLayout;
+  /** Assumed until a row has been measured; err on the short side */
+  estimatedRowHeight: number;
+  /** Called when the last rows come into view, to fetch the next page */
+  onEndReached?: () => void;
+  className?: string;
+}
+
+// Rows rendered beyond each edge of the viewport, so fast flicks don't show blanks
+const OVERSCAN_ROWS = 3;
+// Start fetching the next page this many rows before the end
+const END_THRESHOLD_ROWS = 4;
+// Scroll is tracked in steps of this many pixels; overscan covers the difference
+const SCROLL_STEP = 100;
+
+/**
+ * A grid that renders only the rows near the viewport. The window scrolls as
+ * usual; rows above and below are replaced by padding of the same height.
+ */
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  getLayout,
+  estimatedRowHeight,
+  onEndReached,
+  className = '',
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  // Viewport edges measured from the top of the grid
+  const [viewport, setViewport] = useState(() => ({ top: 0, bottom: window.innerHeight }));
+
+  const { columns, gap } = getLayout(width);
+  const rowCount = getRowCount(items.length, columns);
+  const range = getVisibleRows(viewport.top, viewport.bottom, rowHeight + gap, rowCount, OVERSCAN_ROWS);
+
+  // Width decides the columns, so it is read before the first paint; a restored
+  // scroll position would otherwise land on the wrong row
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const rows = rowsRef.current;
+    if (!container || !rows) return;
+    setWidth(container.clientWidth);
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      setWidth(container.clientWidth);
+      // A row taller than the rest grows the block; every row takes the tallest height seen
+      const heights = Array.from(rows.children, (row) => (row as HTMLElement).offsetHeight);
+      if (heights.length) setRowHeight((prev) => Math.max(prev, ...heights));
+    });
+    observer.observe(container);
+    observer.observe(rows);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const offset = container.getBoundingClientRect().top;
+        const top = Math.floor(-offset / SCROLL_STEP) * SCROLL_STEP;
+        const bottom = Math.ceil((window.innerHeight - offset) / SCROLL_STEP) * SCROLL_STEP;
+        setViewport((prev) => (prev.top === top && prev.bottom === bottom ? prev : { top, bottom }));
+      });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, []);
+
+  // Fires on reaching the end and again whenever new items arrive while still
+  // there, but not on every re-render, so a failed fetch isn't retried in a loop
+  const endReached = useRef(onEndReached);
+  useEffect(() => {
+    endReached.current = onEndReached;
+  });
+  const nearEnd = rowCount > 0 && range.end >= rowCount - END_THRESHOLD_ROWS;
+  useEffect(() => {
+    if (nearEnd) endReached.current?.();
+  }, [nearEnd, items]);
+
+  const rowStride = rowHeight + gap;
+  const visibleItems = items.slice(range.start * columns, range.end * columns);
+  const rows: T[][] = [];
+  for (let i = 0; i < visibleItems.length; i += columns) {
+    rows.push(visibleItems.slice(i, i + columns));
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`virtual-grid ${className}`}
+      style={{ height: getGridHeight(rowCount, rowHeight, gap) }}
+    >
+      <div
+        ref={rowsRef}
+        className="virtual-grid__rows"
+        style={{ transform: `translateY(${range.start * rowStride}px)`, rowGap: gap }}
+      >
+        {rows.map((row, index) => (
+          <div
+            key={range.start + index}
+            className="virtual-grid__row"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, columnGap: gap, minHeight: rowHeight }}
+          >
+            {row.map((item) => (
+              <div key={getKey(item)} className="virtual-grid__cell">
+                {renderItem(item)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
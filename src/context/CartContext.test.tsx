@@ -1,9 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { CartProvider, useCart } from './CartContext';
 import { ProductCategory } from '@/types/enums';
 import type { ReactNode } from 'react';
 
+const mockGetProduct = vi.fn();
+
+vi.mock('../services/api/public-store.api', () => ({
+  publicStoreApi: {
+    getProduct: (...args: unknown[]) => mockGetProduct(...args),
+  },
+}));
+
 // Mock localStorage
 const localStorageMock = (() => {
   let store: Record<string, string> = {};
@@ -48,6 +56,7 @@ describe('CartContext', () => {
   beforeEach(() => {
     localStorageMock.clear();
     vi.clearAllMocks();
+    mockGetProduct.mockResolvedValue({ success: true, data: mockProduct });
   });
 
   it('starts with empty cart', () => {
@@ -84,6 +93,49 @@ describe('CartContext', () => {
     expect(result.current.getCartItemCount()).toBe(3);
   });
 
+  it('clamps added quantity to available stock', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const limited = { ...mockProduct, stockQuantity: 3 };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: limited, quantity: 2 });
+    });
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: limited, quantity: 5 });
+    });
+
+    expect(result.current.cart[0].quantity).toBe(3);
+    const availability = result.current.getAvailability(limited);
+    expect(availability.canAdd).toBe(false);
+    expect(availability.reason).toBe('Only 3 available');
+  });
+
+  it('does not add out-of-stock products', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const soldOut = { ...mockProduct, stockQuantity: 0, outOfStock: true };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: soldOut, quantity: 1 });
+    });
+
+    expect(result.current.cart).toHaveLength(0);
+    expect(result.current.getAvailability(soldOut).reason).toBe('Out of stock');
+  });
+
+  it('clamps updated quantity to available stock', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const limited = { ...mockProduct, stockQuantity: 3 };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: limited, quantity: 1 });
+    });
+    act(() => {
+      result.current.updateQuantity('prod-1', 12);
+    });
+
+    expect(result.current.cart[0].quantity).toBe(3);
+  });
+
   it('removes item from cart', () => {
     const { result } = renderHook(() => useCart(), { wrapper });
 
@@ -139,6 +191,101 @@ describe('CartContext', () => {
     expect(result.current.getCartItemCount()).toBe(0);
   });
 
+  it('keeps lines of the same product with different notes separate', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1 });
+    });
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 2, notes: 'No onions' });
+    });
+
+    expect(result.current.cart).toHaveLength(2);
+    expect(result.current.cart[1].notes).toBe('No onions');
+    expect(result.current.getAvailability(mockProduct).quantityInCart).toBe(3);
+  });
+
+  it('shares stock between lines of the same product', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const limited = { ...mockProduct, stockQuantity: 4 };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: limited, quantity: 3 });
+    });
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: limited, quantity: 5, notes: 'Extra spicy' });
+    });
+
+    expect(result.current.cart.map((item) => item.quantity)).toEqual([3, 1]);
+  });
+
+  it('tracks stock per variant', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const red = { ...mockProduct, stockQuantity: 2 };
+    const blue = { ...mockProduct, stockQuantity: 5 };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', variantId: 'red', variantLabel: 'Red', product: red, quantity: 4 });
+    });
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', variantId: 'blue', variantLabel: 'Blue', product: blue, quantity: 4 });
+    });
+
+    expect(result.current.cart.map((item) => [item.lineId, item.quantity])).toEqual([['prod-1:red', 2], ['prod-1:blue', 4]]);
+    expect(result.current.getAvailability(red, 'red').canAdd).toBe(false);
+    expect(result.current.getAvailability(blue, 'blue').canAdd).toBe(true);
+  });
+
+  it('combines lines when notes are edited to match another line', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1, notes: 'Gift wrap' });
+    });
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 2 });
+    });
+    act(() => {
+      result.current.updateNotes('prod-1', 'Gift wrap ');
+    });
+
+    expect(result.current.cart).toHaveLength(1);
+    expect(result.current.cart[0].quantity).toBe(3);
+    expect(result.current.cart[0].notes).toBe('Gift wrap');
+  });
+
+  it('merges imported items into the existing cart', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const other = { ...mockProduct, id: 'prod-2', slug: 'other' };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1 });
+    });
+    act(() => {
+      result.current.importCart([
+        { productId: 'prod-1', product: mockProduct, quantity: 2 },
+        { productId: 'prod-2', product: other, quantity: 1 },
+      ], 'merge');
+    });
+
+    expect(result.current.cart.map((i) => [i.productId, i.quantity])).toEqual([['prod-1', 3], ['prod-2', 1]]);
+  });
+
+  it('replaces the cart with imported items', () => {
+    const { result } = renderHook(() => useCart(), { wrapper });
+    const other = { ...mockProduct, id: 'prod-2', slug: 'other' };
+
+    act(() => {
+      result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1 });
+    });
+    act(() => {
+      result.current.importCart([{ productId: 'prod-2', product: other, quantity: 2 }], 'replace');
+    });
+
+    expect(result.current.cart.map((i) => [i.productId, i.quantity])).toEqual([['prod-2', 2]]);
+  });
+
   it('persists cart to localStorage', () => {
     const { result } = renderHook(() => useCart(), { wrapper });
 
@@ -157,4 +304,200 @@ describe('CartContext', () => {
       renderHook(() => useCart());
     }).toThrow('useCart must be used within CartProvider');
   });
+
+  describe('cross-tab sync', () => {
+    function otherTabWrites(items: unknown[], removed: Record<string, number> = {}) {
+      const newValue = JSON.stringify({
+        version: 3,
+        savedAt: new Date().toISOString(),
+        storeSlug: TEST_SLUG,
+        items,
+        removed,
+      });
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: `cart_${TEST_SLUG}`, newValue }));
+      });
+    }
+
+    it('picks up items added in another tab', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1 });
+      });
+      const other = { ...mockProduct, id: 'prod-2', slug: 'other' };
+      otherTabWrites([
+        { productId: 'prod-2', product: other, quantity: 2, updatedAt: Date.now() + 1000 },
+      ]);
+
+      expect(result.current.cart.map((i) => i.productId)).toEqual(['prod-1', 'prod-2']);
+      expect(result.current.getCartItemCount()).toBe(3);
+    });
+
+    it('applies removals made in another tab', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addToCart({ productId: 'prod-1', product: mockProduct, quantity: 1 });
+      });
+      otherTabWrites([], { 'prod-1': Date.now() + 1000 });
+
+      expect(result.current.cart).toHaveLength(0);
+    });
+
+    it('ignores events for other keys', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: 'cart_other-store', newValue: '[]' }));
+      });
+
+      expect(result.current.cart).toEqual([]);
+    });
+  });
+
+  describe('revalidation', () => {
+    function seedCart(quantity: number, product = mockProduct) {
+      localStorageMock.setItem(
+        `cart_${TEST_SLUG}`,
+        JSON.stringify([{ productId: product.id, product, quantity }])
+      );
+    }
+
+    it('refetches cart products on load', async () => {
+      seedCart(1);
+      renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => {
+        expect(mockGetProduct).toHaveBeenCalledWith(TEST_SLUG, 'prod-1');
+      });
+    });
+
+    it('does not fetch anything for an empty cart', () => {
+      renderHook(() => useCart(), { wrapper });
+      expect(mockGetProduct).not.toHaveBeenCalled();
+    });
+
+    it('flags price changes and low stock', async () => {
+      seedCart(10);
+      mockGetProduct.mockResolvedValue({
+        success: true,
+        data: { ...mockProduct, unitPrice: 1200, stockQuantity: 4 },
+      });
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.cartIssues.map((i) => i.kind)).toEqual(['INSUFFICIENT_STOCK', 'PRICE_CHANGED']);
+      });
+      expect(result.current.cartIssues[0].availableQuantity).toBe(4);
+      expect(result.current.cartIssues[1].previousPrice).toBe(1000);
+      expect(result.current.cartIssues[1].currentPrice).toBe(1200);
+    });
+
+    it('flags deactivated and out-of-stock products', async () => {
+      const other = { ...mockProduct, id: 'prod-2', slug: 'other' };
+      localStorageMock.setItem(
+        `cart_${TEST_SLUG}`,
+        JSON.stringify([
+          { productId: 'prod-1', product: mockProduct, quantity: 1 },
+          { productId: 'prod-2', product: other, quantity: 1 },
+        ])
+      );
+      mockGetProduct.mockImplementation((_slug: string, id: string) =>
+        Promise.resolve({
+          success: true,
+          data: id === 'prod-1'
+            ? { ...mockProduct, active: false }
+            : { ...other, outOfStock: true, stockQuantity: 0 },
+        })
+      );
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.cartIssues.map((i) => i.kind)).toEqual(['UNAVAILABLE', 'OUT_OF_STOCK']);
+      });
+    });
+
+    it('ignores a pass where every request failed', async () => {
+      seedCart(1);
+      mockGetProduct.mockResolvedValue({ success: false, message: 'Unable to connect' });
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => expect(result.current.revalidating).toBe(false));
+      expect(mockGetProduct).toHaveBeenCalled();
+      expect(result.current.cartIssues).toEqual([]);
+    });
+
+    it('flags the only product in the cart when the store says it is gone', async () => {
+      seedCart(1);
+      mockGetProduct.mockResolvedValue({
+        success: false,
+        message: 'Not found',
+        error: { kind: 'not-found', message: 'Not found' },
+      });
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.cartIssues.map((i) => i.kind)).toEqual(['UNAVAILABLE']);
+      });
+    });
+
+    it('only calls a product unavailable when the store says it is gone', async () => {
+      const other = { ...mockProduct, id: 'prod-2', slug: 'other' };
+      const third = { ...mockProduct, id: 'prod-3', slug: 'third' };
+      localStorageMock.setItem(
+        `cart_${TEST_SLUG}`,
+        JSON.stringify([
+          { productId: 'prod-1', product: mockProduct, quantity: 1 },
+          { productId: 'prod-2', product: other, quantity: 1 },
+          { productId: 'prod-3', product: third, quantity: 1 },
+        ])
+      );
+      mockGetProduct.mockImplementation((_slug: string, id: string) =>
+        Promise.resolve(
+          id === 'prod-1'
+            ? { success: true, data: { ...mockProduct, unitPrice: 1200 } }
+            : id === 'prod-2'
+              ? { success: false, message: 'Not found', error: { kind: 'not-found', message: 'Not found' } }
+              : { success: false, message: 'Too slow', error: { kind: 'timeout', message: 'Too slow' } }
+        )
+      );
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.cartIssues.map((i) => [i.productId, i.kind])).toEqual([
+          ['prod-1', 'PRICE_CHANGED'],
+          ['prod-2', 'UNAVAILABLE'],
+        ]);
+      });
+
+      act(() => result.current.acceptCartChanges());
+      // The line that timed out stays in the cart as it was
+      expect(result.current.cart.map((item) => item.productId)).toEqual(['prod-1', 'prod-3']);
+    });
+
+    it('applies live data when changes are accepted', async () => {
+      seedCart(10);
+      mockGetProduct.mockResolvedValue({
+        success: true,
+        data: { ...mockProduct, unitPrice: 1200, stockQuantity: 4 },
+      });
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+      await waitFor(() => expect(result.current.cartIssues).toHaveLength(2));
+
+      act(() => {
+        result.current.acceptCartChanges();
+      });
+
+      expect(result.current.cart[0].quantity).toBe(4);
+      expect(result.current.cart[0].product.unitPrice).toBe(1200);
+      expect(result.current.cartIssues).toEqual([]);
+    });
+  });
 });
@@ -1,74 +1,285 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { ReactNode } from 'react';
-import type { CartItem } from '../services/api/public-store.api';
+import { publicStoreApi } from '../services/api/public-store.api';
+import type { CartItem, CartProduct, NewCartItem } from '../services/api/public-store.api';
+import { loadCart, saveCart, parseCart } from './cart-storage';
+import type { LoadedCart } from './cart-storage';
+import { mergeCarts, cartsEqual } from './cart-sync';
+import { getLineAvailability, clampQuantity } from '../utils/cart-availability';
+import type { CartLineAvailability } from '../utils/cart-availability';
+import { getCartLineId, getProductQuantity, getStockKey, normalizeNotes } from '../utils/cart-line';
+import { getVariantProduct } from '../utils/product-variants';
+import { getCartIssues, applyLatestProducts } from '../utils/cart-revalidation';
+import { isNotFound } from '../services/api/api-errors';
+import type { CartItemIssue, LatestProducts } from '../utils/cart-revalidation';
+
+// Don't hammer the API when the customer flicks between tabs
+const REVALIDATE_MIN_INTERVAL_MS = 30_000;
 
 interface CartContextType {
   cart: CartItem[];
-  addToCart: (item: CartItem) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (item: NewCartItem) => void;
+  removeFromCart: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  updateNotes: (lineId: string, notes: string) => void;
   clearCart: () => void;
+  importCart: (items: NewCartItem[], mode: 'replace' | 'merge') => void;
   getCartItemCount: () => number;
+  getAvailability: (product: CartProduct, variantId?: string) => CartLineAvailability;
+  cartIssues: CartItemIssue[];
+  revalidating: boolean;
+  revalidateCart: () => Promise<void>;
+  acceptCartChanges: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-export function CartProvider({ children, storeSlug }: { children: ReactNode; storeSlug?: string }) {
+interface CartProviderProps {
+  children: ReactNode;
+  storeSlug?: string;
+  /** How long an untouched cart survives in storage */
+  cartTtlMs?: number;
+}
+
+export function CartProvider({ children, storeSlug, cartTtlMs }: CartProviderProps) {
   // Use localStorage to persist cart per store
   const storageKey = storeSlug ? `cart_${storeSlug}` : 'cart';
 
-  const [cart, setCart] = useState<CartItem[]>(() => {
-    try {
-      const stored = localStorage.getItem(storageKey);
-      return stored ? JSON.parse(stored) : [];
-    } catch {
-      return [];
+  const [initialCart] = useState(() => loadCart(storageKey, storeSlug, { ttlMs: cartTtlMs }));
+  const [cart, setCart] = useState<CartItem[]>(initialCart.items);
+  const [latestProducts, setLatestProducts] = useState<LatestProducts>({});
+  const [revalidating, setRevalidating] = useState(false);
+
+  // Latest cart for async callbacks, and when we last revalidated
+  const cartRef = useRef(cart);
+  const lastRevalidatedAt = useRef(0);
+  // What this tab last persisted (with removal tombstones), and whether the next save is redundant
+  const persistedRef = useRef<LoadedCart>(initialCart);
+  const skipNextSave = useRef(false);
+
+  useEffect(() => {
+    cartRef.current = cart;
+  }, [cart]);
+
+  // Persist cart to localStorage whenever it changes, remembering removed lines for other tabs
+  useEffect(() => {
+    const now = Date.now();
+    const removed = { ...persistedRef.current.removed };
+    persistedRef.current.items.forEach((item) => {
+      if (!cart.some((i) => i.lineId === item.lineId)) removed[item.lineId] = now;
+    });
+    cart.forEach((item) => delete removed[item.lineId]);
+
+    persistedRef.current = { items: cart, removed };
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
     }
-  });
+    saveCart(storageKey, storeSlug, persistedRef.current, now);
+  }, [cart, storageKey, storeSlug]);
 
-  // Persist cart to localStorage whenever it changes
+  // Merge changes made in other tabs of the same store
   useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || !event.newValue) return;
+
+      const incoming = parseCart(event.newValue, storeSlug, { ttlMs: cartTtlMs });
+      if (!incoming) return;
+
+      const local = persistedRef.current;
+      const merged = mergeCarts(local, incoming);
+      if (cartsEqual(merged, local)) return;
+
+      // Only write back if we know something the other tab doesn't
+      skipNextSave.current = cartsEqual(merged, incoming);
+      persistedRef.current = merged;
+      setCart(merged.items);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [storageKey, storeSlug, cartTtlMs]);
+
+  // Refetch every product in the cart and remember what the store currently has
+  const revalidateCart = useCallback(async () => {
+    // Lines with different variants or notes share a product, so fetch each product once
+    const items = cartRef.current;
+    const productIds = Array.from(new Set(items.map((item) => item.productId)));
+    if (!storeSlug || productIds.length === 0) return;
+
+    lastRevalidatedAt.current = Date.now();
+    setRevalidating(true);
     try {
-      localStorage.setItem(storageKey, JSON.stringify(cart));
+      const responses = await Promise.all(
+        productIds.map((productId) => publicStoreApi.getProduct(storeSlug, productId))
+      );
+
+      // Every request failing, none of them with a 404, means we're offline, not
+      // that every product vanished
+      if (responses.every((res) => !res.success && !isNotFound(res))) return;
+
+      // Only a 404 means the product is gone. A line whose request failed any
+      // other way is left out, so it keeps its snapshot until the next pass.
+      const latest: LatestProducts = {};
+      items.forEach((item) => {
+        const res = responses[productIds.indexOf(item.productId)];
+        const key = getStockKey(item.productId, item.variantId);
+        if (res.success && res.data) latest[key] = getVariantProduct(res.data, item.variantId);
+        else if (isNotFound(res)) latest[key] = null;
+      });
+      setLatestProducts(latest);
     } catch (error) {
-      console.error('Failed to save cart to localStorage', error);
+      console.error('Failed to revalidate cart', error);
+    } finally {
+      setRevalidating(false);
     }
-  }, [cart, storageKey]);
+  }, [storeSlug]);
+
+  // Revalidate on load and whenever the tab comes back into focus
+  useEffect(() => {
+    revalidateCart();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (Date.now() - lastRevalidatedAt.current < REVALIDATE_MIN_INTERVAL_MS) return;
+      revalidateCart();
+    };
 
-  const addToCart = (item: CartItem) => {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [revalidateCart]);
+
+  const cartIssues = useMemo(() => getCartIssues(cart, latestProducts), [cart, latestProducts]);
+
+  // Prefer what revalidation learned from the server over whatever snapshot the caller holds
+  const resolveProduct = (product: CartProduct, variantId?: string): CartProduct => {
+    const latest = latestProducts[getStockKey(product.id, variantId)];
+    if (latest === null) return { ...product, active: false };
+    return latest ?? product;
+  };
+
+  const getAvailability = (product: CartProduct, variantId?: string) => {
+    const quantityInCart = getProductQuantity(cart, product.id, variantId);
+    return getLineAvailability(resolveProduct(product, variantId), quantityInCart);
+  };
+
+  const acceptCartChanges = () => {
+    const now = Date.now();
+    setCart((prev) =>
+      applyLatestProducts(prev, latestProducts).map((item) => ({ ...item, updatedAt: now }))
+    );
+  };
+
+  // Lines of the same product share its stock, so each line may only take what the others leave
+  const clampLine = (items: CartItem[], line: Pick<CartItem, 'lineId' | 'variantId' | 'product'>, quantity: number) => {
+    const product = resolveProduct(line.product, line.variantId);
+    const others = getProductQuantity(items, product.id, line.variantId, line.lineId);
+    return Math.max(0, Math.min(quantity, clampQuantity(product, others + quantity) - others));
+  };
+
+  const addToCart = (item: NewCartItem) => {
+    const notes = normalizeNotes(item.notes);
+    const lineId = getCartLineId(item.productId, notes, item.variantId);
+    const now = Date.now();
     setCart((prev) => {
-      const existing = prev.find((i) => i.productId === item.productId);
+      const existing = prev.find((i) => i.lineId === lineId);
+      const quantity = clampLine(prev, { ...item, lineId }, (existing?.quantity ?? 0) + item.quantity);
+      if (quantity === 0) return prev;
       if (existing) {
         return prev.map((i) =>
-          i.productId === item.productId
-            ? { ...i, quantity: i.quantity + item.quantity }
+          i.lineId === lineId
+            ? { ...i, quantity, updatedAt: now }
             : i
         );
       }
-      return [...prev, item];
+      return [...prev, { ...item, lineId, notes, quantity, updatedAt: now }];
     });
+    // A freshly added product is the live version
+    setLatestProducts((prev) => ({ ...prev, [getStockKey(item.productId, item.variantId)]: item.product }));
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart((prev) => prev.filter((item) => item.productId !== productId));
+  const removeFromCart = (lineId: string) => {
+    setCart((prev) => prev.filter((item) => item.lineId !== lineId));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineId);
     } else {
+      const now = Date.now();
       setCart((prev) =>
         prev.map((item) =>
-          item.productId === productId ? { ...item, quantity } : item
+          item.lineId === lineId
+            ? { ...item, quantity: Math.max(1, clampLine(prev, item, quantity)), updatedAt: now }
+            : item
         )
       );
     }
   };
 
+  // Changing notes moves the line to a new ID; if another line already has those notes, the two combine
+  const updateNotes = (lineId: string, notes: string) => {
+    const now = Date.now();
+    setCart((prev) => {
+      const line = prev.find((item) => item.lineId === lineId);
+      if (!line) return prev;
+      const nextNotes = normalizeNotes(notes);
+      const nextLineId = getCartLineId(line.productId, nextNotes, line.variantId);
+      if (nextLineId === lineId) return prev;
+
+      const target = prev.find((item) => item.lineId === nextLineId);
+      if (!target) {
+        return prev.map((item) =>
+          item.lineId === lineId
+            ? { ...item, lineId: nextLineId, notes: nextNotes, updatedAt: now }
+            : item
+        );
+      }
+      return prev
+        .filter((item) => item.lineId !== lineId)
+        .map((item) =>
+          item.lineId === nextLineId
+            ? { ...item, quantity: item.quantity + line.quantity, updatedAt: now }
+            : item
+        );
+    });
+  };
+
   const clearCart = () => {
     setCart([]);
   };
 
+  // Bring in lines from a shared cart link, either instead of or on top of the current cart
+  const importCart = (items: NewCartItem[], mode: 'replace' | 'merge') => {
+    const now = Date.now();
+    setCart((prev) => {
+      const next = mode === 'replace' ? [] : [...prev];
+      items.forEach((item) => {
+        const notes = normalizeNotes(item.notes);
+        const lineId = getCartLineId(item.productId, notes, item.variantId);
+        const index = next.findIndex((i) => i.lineId === lineId);
+        const existing = index >= 0 ? next[index].quantity : 0;
+        const others = getProductQuantity(next, item.productId, item.variantId, lineId);
+        const quantity = Math.max(0, clampQuantity(item.product, others + existing + item.quantity) - others);
+        if (quantity === 0) return;
+        const line = { ...item, lineId, notes, quantity, updatedAt: now };
+        if (index >= 0) {
+          next[index] = line;
+        } else {
+          next.push(line);
+        }
+      });
+      return next;
+    });
+    setLatestProducts((prev) => {
+      const next = { ...prev };
+      items.forEach((item) => {
+        next[getStockKey(item.productId, item.variantId)] = item.product;
+      });
+      return next;
+    });
+  };
+
   const getCartItemCount = () => {
     return cart.reduce((sum, item) => sum + item.quantity, 0);
   };
@@ -80,8 +291,15 @@ export function CartProvider({ children, storeSlug }: { children: ReactNode; sto
         addToCart,
         removeFromCart,
         updateQuantity,
+        updateNotes,
         clearCart,
+        importCart,
         getCartItemCount,
+        getAvailability,
+        cartIssues,
+        revalidating,
+        revalidateCart,
+        acceptCartChanges,
       }}
     >
       {children}
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { StoreCurrencyContext, createStoreCurrency } from './store-currency';
+
+interface StoreCurrencyProviderProps {
+  children: ReactNode;
+  /** ISO 4217 code from Store.currency; naira when the store hasn't loaded */
+  currency?: string;
+  locale?: string;
+}
+
+export function StoreCurrencyProvider({ children, currency, locale }: StoreCurrencyProviderProps) {
+  const value = useMemo(() => createStoreCurrency(currency, locale), [currency, locale]);
+  return <StoreCurrencyContext.Provider value={value}>{children}</StoreCurrencyContext.Provider>;
+}
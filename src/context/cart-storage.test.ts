@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  loadCart,
+  saveCart,
+  CART_STORAGE_VERSION,
+  DEFAULT_CART_TTL_MS,
+  MAX_CART_STORAGE_BYTES,
+  TOMBSTONE_TTL_MS,
+} from './cart-storage';
+
+const KEY = 'cart_test-store';
+const SLUG = 'test-store';
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const fullProduct = {
+  id: 'prod-1',
+  name: 'Test Product',
+  slug: 'test-product',
+  category: 'OTHER',
+  categoryDisplayName: 'General',
+  description: 'A long description that should not be persisted',
+  unitPrice: 1000,
+  costPrice: 500,
+  priceWithVat: 1075,
+  unit: 'piece',
+  stockQuantity: 50,
+  reorderLevel: 5,
+  taxable: true,
+  vatRate: 7.5,
+  active: true,
+  lowStock: false,
+  outOfStock: false,
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+};
+
+const item = { lineId: 'prod-1', productId: 'prod-1', product: fullProduct, quantity: 2 };
+
+const storedItem = { productId: 'prod-1', quantity: 2, name: 'Test Product', unitPrice: 1000, vatRate: 7.5, updatedAt: NOW };
+
+function envelope(overrides: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    version: CART_STORAGE_VERSION,
+    savedAt: new Date(NOW).toISOString(),
+    storeSlug: SLUG,
+    items: [storedItem],
+    removed: {},
+    ...overrides,
+  });
+}
+
+describe('cart storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe('saveCart', () => {
+    it('writes a versioned envelope with slim line references', () => {
+      saveCart(KEY, SLUG, { items: [item], removed: {} }, NOW);
+
+      const stored = JSON.parse(localStorage.getItem(KEY)!);
+      expect(stored.version).toBe(CART_STORAGE_VERSION);
+      expect(stored.savedAt).toBe(new Date(NOW).toISOString());
+      expect(stored.storeSlug).toBe(SLUG);
+      expect(stored.items[0]).toEqual({
+        productId: 'prod-1',
+        quantity: 2,
+        updatedAt: NOW,
+        name: 'Test Product',
+        unitPrice: 1000,
+        vatRate: 7.5,
+      });
+    });
+
+    it('keeps recent tombstones and drops expired ones', () => {
+      saveCart(KEY, SLUG, {
+        items: [],
+        removed: { 'prod-2': NOW - 1000, 'prod-3': NOW - TOMBSTONE_TTL_MS - 1 },
+      }, NOW);
+
+      const stored = JSON.parse(localStorage.getItem(KEY)!);
+      expect(stored.items).toEqual([]);
+      expect(stored.removed).toEqual({ 'prod-2': NOW - 1000 });
+    });
+
+    it('removes the entry when the cart is empty', () => {
+      localStorage.setItem(KEY, envelope());
+      saveCart(KEY, SLUG, { items: [], removed: {} }, NOW);
+      expect(localStorage.getItem(KEY)).toBeNull();
+    });
+
+    it('skips writing a cart that exceeds the size limit', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const huge = { ...item, product: { ...fullProduct, name: 'x'.repeat(MAX_CART_STORAGE_BYTES) } };
+
+      saveCart(KEY, SLUG, { items: [huge], removed: {} }, NOW);
+
+      expect(localStorage.getItem(KEY)).toBeNull();
+    });
+  });
+
+  describe('loadCart', () => {
+    it('returns an empty cart when nothing is stored', () => {
+      expect(loadCart(KEY, SLUG, { now: NOW }).items).toEqual([]);
+    });
+
+    it('round-trips a saved cart', () => {
+      saveCart(KEY, SLUG, { items: [item], removed: {} }, NOW);
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW }).items;
+
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0].productId).toBe('prod-1');
+      expect(loaded[0].quantity).toBe(2);
+      expect(loaded[0].product).toMatchObject({ id: 'prod-1', name: 'Test Product', unitPrice: 1000, vatRate: 7.5 });
+    });
+
+    it('derives line IDs from product and notes', () => {
+      localStorage.setItem(KEY, envelope({
+        items: [
+          { ...storedItem, quantity: 1 },
+          { ...storedItem, quantity: 1, notes: '  Gift wrap  ' },
+        ],
+      }));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW }).items;
+
+      expect(loaded[0].lineId).toBe('prod-1');
+      expect(loaded[1].lineId).toMatch(/^prod-1~/);
+      expect(loaded[1].notes).toBe('Gift wrap');
+    });
+
+    it('lets lines stand until revalidation says how much stock there is', () => {
+      localStorage.setItem(KEY, envelope({
+        items: [
+          { ...storedItem, quantity: 1 },
+          { ...storedItem, quantity: 3, notes: 'Gift wrap' },
+        ],
+      }));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW }).items;
+
+      expect(loaded.map((i) => i.product.stockQuantity)).toEqual([4, 4]);
+      expect(loaded[0].product.active).toBe(true);
+    });
+
+    it('migrates a legacy bare CartItem[] blob', () => {
+      localStorage.setItem(KEY, JSON.stringify([item]));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW }).items;
+
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0].product).not.toHaveProperty('description');
+    });
+
+    it('migrates a v3 envelope to slim lines', () => {
+      localStorage.setItem(KEY, JSON.stringify({
+        version: 3,
+        savedAt: new Date(NOW).toISOString(),
+        storeSlug: SLUG,
+        items: [
+          { ...item, updatedAt: NOW },
+          { productId: 'prod-2', product: fullProduct, quantity: 1, updatedAt: NOW },
+        ],
+        removed: { 'prod-3': NOW - 1000 },
+      }));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW });
+      saveCart(KEY, SLUG, loaded, NOW);
+      const stored = JSON.parse(localStorage.getItem(KEY)!);
+
+      // prod-2's snapshot is for another product, so the line can't be trusted
+      expect(loaded.items.map((i) => i.productId)).toEqual(['prod-1']);
+      expect(loaded.items[0].product).toMatchObject({ name: 'Test Product', unitPrice: 1000, vatRate: 7.5 });
+      expect(loaded.removed).toEqual({ 'prod-3': NOW - 1000 });
+      expect(stored.version).toBe(CART_STORAGE_VERSION);
+      expect(stored.items[0]).not.toHaveProperty('product');
+    });
+
+    it('migrates a v2 envelope by stamping lines with savedAt', () => {
+      localStorage.setItem(KEY, JSON.stringify({
+        version: 2,
+        savedAt: new Date(NOW - 5000).toISOString(),
+        storeSlug: SLUG,
+        items: [item],
+      }));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW });
+
+      expect(loaded.items[0].updatedAt).toBe(NOW - 5000);
+      expect(loaded.removed).toEqual({});
+    });
+
+    it('discards carts older than the TTL', () => {
+      localStorage.setItem(KEY, envelope());
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW + DEFAULT_CART_TTL_MS + 1 }).items;
+
+      expect(loaded).toEqual([]);
+      expect(localStorage.getItem(KEY)).toBeNull();
+    });
+
+    it('honours a custom TTL', () => {
+      localStorage.setItem(KEY, envelope());
+      expect(loadCart(KEY, SLUG, { now: NOW + 61_000, ttlMs: 60_000 }).items).toEqual([]);
+    });
+
+    it('discards corrupt JSON', () => {
+      localStorage.setItem(KEY, '{not json');
+      expect(loadCart(KEY, SLUG, { now: NOW }).items).toEqual([]);
+      expect(localStorage.getItem(KEY)).toBeNull();
+    });
+
+    it('discards oversized entries', () => {
+      localStorage.setItem(KEY, 'x'.repeat(MAX_CART_STORAGE_BYTES + 1));
+      expect(loadCart(KEY, SLUG, { now: NOW }).items).toEqual([]);
+      expect(localStorage.getItem(KEY)).toBeNull();
+    });
+
+    it('discards carts written by a newer schema version', () => {
+      localStorage.setItem(KEY, envelope({ version: CART_STORAGE_VERSION + 1 }));
+      expect(loadCart(KEY, SLUG, { now: NOW }).items).toEqual([]);
+    });
+
+    it('discards carts that belong to another store', () => {
+      localStorage.setItem(KEY, envelope({ storeSlug: 'other-store' }));
+      expect(loadCart(KEY, SLUG, { now: NOW }).items).toEqual([]);
+    });
+
+    it('drops malformed lines but keeps valid ones', () => {
+      localStorage.setItem(KEY, envelope({
+        items: [
+          storedItem,
+          { ...storedItem, productId: 'prod-2', quantity: -1 },
+          { productId: 'prod-3', quantity: 1 },
+          'garbage',
+        ],
+      }));
+
+      const loaded = loadCart(KEY, SLUG, { now: NOW }).items;
+
+      expect(loaded.map((i) => i.productId)).toEqual(['prod-1']);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Versioned localStorage persistence for the cart.
+ *
+ * Carts are saved as an envelope ({ version, savedAt, storeSlug, items, removed }) so that
+ * older shapes can be migrated forward instead of breaking when Product changes.
+ * Per-line timestamps and removal tombstones let tabs merge each other's carts.
+ * Lines are stored as references plus what the cart needs to draw them; the rest
+ * of the product comes from revalidation.
+ */
+import type { CartItem, CartProduct } from '../services/api/public-store.api';
+import { TaxDisplayMode } from '../types/store.types';
+import { getCartLineId, getStockKey, normalizeNotes } from '../utils/cart-line';
+import { getVatRate, toShelfPrice } from '../utils/vat';
+
+export const CART_STORAGE_VERSION = 4;
+
+/** Abandoned carts are discarded after this long by default (14 days) */
+export const DEFAULT_CART_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** Anything larger than this is not a cart we wrote — discard it */
+export const MAX_CART_STORAGE_BYTES = 100 * 1024;
+
+export const MAX_CART_LINES = 100;
+
+/** Removals only need to outlive the other tabs hearing about them (1 day) */
+export const TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** When each line was removed from the cart, keyed by line ID */
+export type CartTombstones = Record<string, number>;
+
+export interface StoredCartItem {
+  productId: string;
+  variantId?: string;
+  variantLabel?: string;
+  quantity: number;
+  notes?: string;
+  updatedAt: number;
+  // Enough to show the line before revalidation fetches the product
+  name: string;
+  /** Naira, as the customer last saw it, so price changes can be flagged */
+  unitPrice: number;
+  /** 0 for untaxed products */
+  vatRate: number;
+  imageUrl?: string;
+}
+
+export interface StoredCart {
+  version: number;
+  savedAt: string;
+  storeSlug: string | null;
+  items: StoredCartItem[];
+  removed: CartTombstones;
+}
+
+export interface LoadedCart {
+  items: CartItem[];
+  removed: CartTombstones;
+}
+
+export interface LoadCartOptions {
+  ttlMs?: number;
+  now?: number;
+}
+
+/**
+ * Migrations keyed by the version they upgrade *from*.
+ * Each one receives the parsed payload of that version and returns the next version.
+ */
+const MIGRATIONS: Record<number, (data: unknown, now: number) => unknown> = {
+  // v1: a bare CartItem[] with the full Product embedded in every line
+  1: (data, now) => ({
+    version: 2,
+    savedAt: new Date(now).toISOString(),
+    storeSlug: null,
+    items: Array.isArray(data) ? data : [],
+  }),
+  // v2: lines gain an updatedAt, and removals are remembered as tombstones
+  2: (data, now) => {
+    const v2 = data as Omit<StoredCart, 'removed'>;
+    const savedAt = Date.parse(v2.savedAt);
+    return {
+      ...v2,
+      version: 3,
+      items: Array.isArray(v2.items)
+        ? v2.items.map((item) => ({ ...item, updatedAt: Number.isNaN(savedAt) ? now : savedAt }))
+        : v2.items,
+      removed: {},
+    };
+  },
+  // v3: every line embeds a product snapshot; v4 keeps only the fields the cart draws
+  3: (data) => {
+    const v3 = data as Omit<StoredCart, 'items'> & { items: unknown };
+    return {
+      ...v3,
+      version: 4,
+      items: Array.isArray(v3.items) ? v3.items.map(toStoredItem) : v3.items,
+    };
+  },
+};
+
+type LegacyCartItem = Omit<StoredCartItem, 'name' | 'unitPrice' | 'vatRate' | 'imageUrl'> & { product?: CartProduct };
+
+function toStoredItem(item: unknown): unknown {
+  if (!item || typeof item !== 'object') return item;
+  const { product, ...line } = item as LegacyCartItem;
+  // Lines whose snapshot doesn't match are left without a name and dropped on load
+  if (!product || typeof product !== 'object' || product.id !== line.productId) return line;
+  return {
+    ...line,
+    name: product.name,
+    unitPrice: product.unitPrice,
+    vatRate: getVatRate(product),
+    imageUrl: product.imageUrl,
+  };
+}
+
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 1;
+  if (data && typeof data === 'object' && typeof (data as StoredCart).version === 'number') {
+    return (data as StoredCart).version;
+  }
+  return 0;
+}
+
+/**
+ * Stand in for the product until revalidation fetches it. Availability is
+ * resolved against the live product, so the placeholder only has to let the
+ * lines already in the cart stand.
+ */
+function toPlaceholderProduct(item: StoredCartItem, quantityInCart: number): CartProduct {
+  const taxed = { taxable: item.vatRate > 0, vatRate: item.vatRate };
+  return {
+    id: item.productId,
+    name: item.name,
+    slug: '',
+    unitPrice: item.unitPrice,
+    priceWithVat: toShelfPrice(item.unitPrice, taxed, TaxDisplayMode.INCLUSIVE),
+    ...taxed,
+    unit: '',
+    imageUrl: item.imageUrl,
+    stockQuantity: quantityInCart,
+    outOfStock: false,
+    active: true,
+  };
+}
+
+function isValidItem(item: unknown): item is StoredCartItem {
+  if (!item || typeof item !== 'object') return false;
+  const { productId, quantity, name, unitPrice, vatRate } = item as StoredCartItem;
+  return (
+    typeof productId === 'string' &&
+    Number.isInteger(quantity) &&
+    quantity > 0 &&
+    typeof name === 'string' &&
+    typeof unitPrice === 'number' &&
+    typeof vatRate === 'number'
+  );
+}
+
+/**
+ * Parse a stored cart payload, migrating old formats.
+ * Returns null for anything corrupt, oversized, expired or belonging to another store.
+ */
+export function parseCart(raw: string, storeSlug: string | undefined, options: LoadCartOptions = {}): LoadedCart | null {
+  const { ttlMs = DEFAULT_CART_TTL_MS, now = Date.now() } = options;
+
+  if (raw.length > MAX_CART_STORAGE_BYTES) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  let version = detectVersion(data);
+  while (version < CART_STORAGE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data, now);
+    version = detectVersion(data);
+  }
+  // Written by a newer build — we can't safely read it
+  if (version !== CART_STORAGE_VERSION) return null;
+
+  const stored = data as StoredCart;
+  if (!Array.isArray(stored.items)) return null;
+  if (stored.storeSlug && storeSlug && stored.storeSlug !== storeSlug) return null;
+
+  const savedAt = Date.parse(stored.savedAt);
+  if (Number.isNaN(savedAt) || now - savedAt > ttlMs) return null;
+
+  const removed: CartTombstones = {};
+  if (stored.removed && typeof stored.removed === 'object') {
+    Object.entries(stored.removed).forEach(([productId, removedAt]) => {
+      if (typeof removedAt === 'number') removed[productId] = removedAt;
+    });
+  }
+
+  const items = stored.items.filter(isValidItem).slice(0, MAX_CART_LINES);
+  // Lines of the same product share its stock, which the placeholders put at what the cart holds
+  const quantities: Record<string, number> = {};
+  items.forEach((item) => {
+    const key = getStockKey(item.productId, typeof item.variantId === 'string' ? item.variantId : undefined);
+    quantities[key] = (quantities[key] ?? 0) + item.quantity;
+  });
+
+  return {
+    items: items.map((item) => {
+      const notes = typeof item.notes === 'string' ? normalizeNotes(item.notes) : undefined;
+      const variantId = typeof item.variantId === 'string' ? item.variantId : undefined;
+      const imageUrl = typeof item.imageUrl === 'string' ? item.imageUrl : undefined;
+      return {
+        // Line IDs are derived, so they can never drift from the line's contents
+        lineId: getCartLineId(item.productId, notes, variantId),
+        productId: item.productId,
+        variantId,
+        variantLabel: variantId && typeof item.variantLabel === 'string' ? item.variantLabel : undefined,
+        quantity: item.quantity,
+        product: toPlaceholderProduct({ ...item, imageUrl }, quantities[getStockKey(item.productId, variantId)]),
+        notes,
+        updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : savedAt,
+      };
+    }),
+    removed,
+  };
+}
+
+/**
+ * Read the cart for a store, removing the entry if it can't be used.
+ */
+export function loadCart(storageKey: string, storeSlug: string | undefined, options: LoadCartOptions = {}): LoadedCart {
+  const empty: LoadedCart = { items: [], removed: {} };
+
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(storageKey);
+  } catch {
+    return empty;
+  }
+  if (!raw) return empty;
+
+  const cart = parseCart(raw, storeSlug, options);
+  if (cart) return cart;
+
+  try {
+    localStorage.removeItem(storageKey);
+  } catch {
+    // Storage unavailable — nothing to clean up
+  }
+  return empty;
+}
+
+/**
+ * Drop tombstones old enough that every open tab has already seen them.
+ */
+export function pruneTombstones(removed: CartTombstones, now: number = Date.now()): CartTombstones {
+  const pruned: CartTombstones = {};
+  Object.entries(removed).forEach(([productId, removedAt]) => {
+    if (now - removedAt <= TOMBSTONE_TTL_MS) pruned[productId] = removedAt;
+  });
+  return pruned;
+}
+
+/**
+ * Write the cart envelope. An empty cart with nothing to tell other tabs removes the entry.
+ */
+export function saveCart(storageKey: string, storeSlug: string | undefined, cart: LoadedCart, now: number = Date.now()): void {
+  try {
+    const removed = pruneTombstones(cart.removed, now);
+    if (cart.items.length === 0 && Object.keys(removed).length === 0) {
+      localStorage.removeItem(storageKey);
+      return;
+    }
+
+    const envelope: StoredCart = {
+      version: CART_STORAGE_VERSION,
+      savedAt: new Date(now).toISOString(),
+      storeSlug: storeSlug ?? null,
+      items: cart.items.slice(0, MAX_CART_LINES).map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        variantLabel: item.variantLabel,
+        quantity: item.quantity,
+        notes: item.notes,
+        updatedAt: item.updatedAt ?? now,
+        name: item.product.name,
+        unitPrice: item.product.unitPrice,
+        vatRate: getVatRate(item.product),
+        imageUrl: item.product.imageUrl,
+      })),
+      removed,
+    };
+
+    const serialized = JSON.stringify(envelope);
+    if (serialized.length > MAX_CART_STORAGE_BYTES) {
+      console.warn('Cart is too large to persist; keeping it in memory only');
+      return;
+    }
+    localStorage.setItem(storageKey, serialized);
+  } catch (error) {
+    console.error('Failed to save cart to localStorage', error);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { mergeCarts, cartsEqual } from './cart-sync';
+import type { LoadedCart } from './cart-storage';
+
+const product = (id: string) => ({
+  id,
+  name: `Product ${id}`,
+  slug: id,
+  unitPrice: 1000,
+  priceWithVat: 1075,
+  taxable: true,
+  vatRate: 7.5,
+  unit: 'piece',
+  stockQuantity: 50,
+  outOfStock: false,
+  active: true,
+});
+
+const line = (id: string, quantity: number, updatedAt: number) => ({
+  lineId: id,
+  productId: id,
+  product: product(id),
+  quantity,
+  updatedAt,
+});
+
+const cart = (items: LoadedCart['items'], removed: LoadedCart['removed'] = {}): LoadedCart => ({ items, removed });
+
+describe('mergeCarts', () => {
+  it('keeps lines that only exist in one tab', () => {
+    const merged = mergeCarts(cart([line('a', 1, 100)]), cart([line('b', 2, 200)]));
+    expect(merged.items.map((i) => i.productId)).toEqual(['a', 'b']);
+  });
+
+  it('takes the most recently edited version of a line', () => {
+    const merged = mergeCarts(cart([line('a', 1, 100)]), cart([line('a', 5, 200)]));
+    expect(merged.items[0].quantity).toBe(5);
+  });
+
+  it('applies a removal made after the last edit', () => {
+    const merged = mergeCarts(cart([line('a', 1, 100)]), cart([], { a: 150 }));
+    expect(merged.items).toEqual([]);
+    expect(merged.removed).toEqual({ a: 150 });
+  });
+
+  it('keeps a line re-added after a removal', () => {
+    const merged = mergeCarts(cart([line('a', 3, 200)]), cart([], { a: 150 }));
+    expect(merged.items[0].quantity).toBe(3);
+    expect(merged.removed).toEqual({});
+  });
+
+  it('breaks timestamp ties on quantity so both tabs agree', () => {
+    const left = cart([line('a', 2, 100)]);
+    const right = cart([line('a', 4, 100)]);
+
+    expect(mergeCarts(left, right).items[0].quantity).toBe(4);
+    expect(mergeCarts(right, left).items[0].quantity).toBe(4);
+  });
+
+  it('converges to the same contents regardless of merge direction', () => {
+    const left = cart([line('a', 1, 100), line('b', 2, 300)], { c: 250 });
+    const right = cart([line('b', 1, 200), line('c', 1, 200)], { a: 120 });
+
+    const leftMerged = mergeCarts(left, right);
+    const rightMerged = mergeCarts(right, left);
+
+    expect(leftMerged.items).toEqual([line('b', 2, 300)]);
+    expect(rightMerged.items).toEqual(leftMerged.items);
+    expect(rightMerged.removed).toEqual(leftMerged.removed);
+  });
+
+  it('keeps lines of the same product with different notes apart', () => {
+    const plain = line('a', 1, 100);
+    const noted = { ...line('a', 2, 200), lineId: 'a~x1', notes: 'No onions' };
+
+    const merged = mergeCarts(cart([plain]), cart([noted]));
+
+    expect(merged.items.map((i) => i.lineId)).toEqual(['a', 'a~x1']);
+  });
+});
+
+describe('cartsEqual', () => {
+  it('compares lines and tombstones', () => {
+    expect(cartsEqual(cart([line('a', 1, 100)]), cart([line('a', 1, 100)]))).toBe(true);
+    expect(cartsEqual(cart([line('a', 1, 100)]), cart([line('a', 2, 100)]))).toBe(false);
+    expect(cartsEqual(cart([], { a: 1 }), cart([], { a: 2 }))).toBe(false);
+  });
+});
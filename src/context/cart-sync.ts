@@ -0,0 +1,71 @@
+/**
+ * Cross-tab cart merging.
+ *
+ * Each line and each removal carries a timestamp; for every line the most
+ * recent event wins. The rules are symmetric, so two tabs merging each other's
+ * carts always settle on the same result.
+ */
+import type { CartItem } from '../services/api/public-store.api';
+import type { CartTombstones, LoadedCart } from './cart-storage';
+
+/**
+ * Pick the newer of two versions of the same line.
+ * Ties go to the larger quantity so both tabs choose the same winner.
+ */
+function newerLine(a: CartItem | undefined, b: CartItem | undefined): CartItem | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const aTime = a.updatedAt ?? 0;
+  const bTime = b.updatedAt ?? 0;
+  if (aTime !== bTime) return aTime > bTime ? a : b;
+  return b.quantity > a.quantity ? b : a;
+}
+
+export function mergeCarts(local: LoadedCart, incoming: LoadedCart): LoadedCart {
+  const localById = new Map(local.items.map((item) => [item.lineId, item]));
+  const incomingById = new Map(incoming.items.map((item) => [item.lineId, item]));
+
+  // Local order first, then anything only the other tab has
+  const lineIds = [
+    ...local.items.map((item) => item.lineId),
+    ...incoming.items.map((item) => item.lineId).filter((id) => !localById.has(id)),
+    ...Object.keys(local.removed),
+    ...Object.keys(incoming.removed),
+  ].filter((id, index, all) => all.indexOf(id) === index);
+
+  const items: CartItem[] = [];
+  const removed: CartTombstones = {};
+
+  lineIds.forEach((lineId) => {
+    const line = newerLine(localById.get(lineId), incomingById.get(lineId));
+    const removedAt = Math.max(local.removed[lineId] ?? -Infinity, incoming.removed[lineId] ?? -Infinity);
+
+    // A line re-added after it was removed survives; a removal after the last edit wins
+    if (line && (line.updatedAt ?? 0) > removedAt) {
+      items.push(line);
+    } else if (Number.isFinite(removedAt)) {
+      removed[lineId] = removedAt;
+    }
+  });
+
+  return { items, removed };
+}
+
+export function cartsEqual(a: LoadedCart, b: LoadedCart): boolean {
+  if (a.items.length !== b.items.length) return false;
+  const sameItems = a.items.every((item, index) => {
+    const other = b.items[index];
+    return (
+      item.lineId === other.lineId &&
+      item.quantity === other.quantity &&
+      item.updatedAt === other.updatedAt
+    );
+  });
+  if (!sameItems) return false;
+
+  const aRemoved = Object.keys(a.removed);
+  return (
+    aRemoved.length === Object.keys(b.removed).length &&
+    aRemoved.every((lineId) => a.removed[lineId] === b.removed[lineId])
+  );
+}
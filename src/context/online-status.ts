@@ -0,0 +1,28 @@
+/**
+ * Whether the browser thinks it has a connection. A "true" only means some
+ * network is up; requests can still fail. A "false" is reliable, so it is used
+ * to hold orders back rather than send them into the void.
+ */
+import { useSyncExternalStore } from 'react';
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+}
+
+function getSnapshot(): boolean {
+  return navigator.onLine;
+}
+
+// Rendered on the server, assume a connection
+function getServerSnapshot(): boolean {
+  return true;
+}
+
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import {
+  DEFAULT_CURRENCY,
+  formatMajorAmount,
+  formatMoney,
+  getCurrencyDecimals,
+  getCurrencyLocale,
+} from '../utils/currency';
+
+/**
+ * The currency a store sells in, with formatters bound to it. Every amount a
+ * storefront page shows goes through here so a Ghanaian store reads GH₵ and a
+ * Kenyan one Ksh, from the directory through to order tracking.
+ */
+export interface StoreCurrency {
+  code: string;
+  locale: string;
+  decimals: number;
+  /** Format an amount in minor units (the API's *Kobo fields) */
+  format: (minor: number) => string;
+  /** Format an amount in major units (product prices) */
+  formatMajor: (amount: number) => string;
+}
+
+export function createStoreCurrency(code: string = DEFAULT_CURRENCY, locale?: string): StoreCurrency {
+  const currency = (code || DEFAULT_CURRENCY).toUpperCase();
+  const resolvedLocale = locale ?? getCurrencyLocale(currency);
+  return {
+    code: currency,
+    locale: resolvedLocale,
+    decimals: getCurrencyDecimals(currency),
+    format: (minor) => formatMoney(minor, currency, resolvedLocale),
+    formatMajor: (amount) => formatMajorAmount(amount, currency, resolvedLocale),
+  };
+}
+
+// Outside a provider everything is shown in naira, as it always was
+export const StoreCurrencyContext = createContext<StoreCurrency>(createStoreCurrency());
+
+export function useStoreCurrency(): StoreCurrency {
+  return useContext(StoreCurrencyContext);
+}
@@ -38,6 +38,16 @@ const queryClient = new QueryClient({
   },
 })
 
+// Offline support (public/sw.js). Dev builds skip it so a cached shell never
+// hides changes being worked on.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed', error)
+    })
+  })
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <QueryClientProvider client={queryClient}>
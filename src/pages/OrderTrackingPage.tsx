@@ -33,9 +33,14 @@ import {
   DocumentAttachment,
 } from '@carbon/icons-react';
 import { publicStoreApi } from '@/services/api/public-store.api';
+import { storeKeys, useStore } from '@/services/api/public-store.queries';
+import { isNotFound } from '@/services/api/api-errors';
 import type { StoreOrder } from '@/types/store.types';
 import { OrderStatus, OrderPaymentStatus } from '@/types/store.types';
-import { formatCurrency } from '@/utils/currency';
+import { formatScheduledTime, getStoreTimeZone } from '@/utils/business-hours';
+import { formatOrderTimeSlot } from '@/utils/time-slots';
+import { getVatBreakdown, getVatSummary } from '@/utils/vat';
+import { useStoreCurrency } from '@/context/store-currency';
 import './OrderTrackingPage.scss';
 
 const ORDER_STATUS_CONFIG: Record<OrderStatus, { label: string; tagType: string; icon: typeof Checkmark }> = {
@@ -74,11 +79,7 @@ export function OrderTrackingPage() {
   const [proofSuccess, setProofSuccess] = useState(false);
   const [proofError, setProofError] = useState<string | null>(null);
 
-  const { data: storeResponse, isLoading: storeLoading } = useQuery({
-    queryKey: ['public-store', storeSlug],
-    queryFn: () => publicStoreApi.getStore(storeSlug!),
-    enabled: !!storeSlug,
-  });
+  const { data: storeResponse, isLoading: storeLoading } = useStore(storeSlug);
 
   const {
     data: orderResponse,
@@ -86,7 +87,7 @@ export function OrderTrackingPage() {
     isError,
     refetch,
   } = useQuery({
-    queryKey: ['order-tracking', storeSlug, orderNumber],
+    queryKey: storeKeys.order(storeSlug!, orderNumber!),
     queryFn: () => publicStoreApi.trackOrder(storeSlug!, orderNumber!),
     enabled: !!storeSlug && !!orderNumber,
     refetchInterval: 30_000, // Poll every 30s for status updates
@@ -95,6 +96,7 @@ export function OrderTrackingPage() {
   const store = storeResponse?.data;
   const order = orderResponse?.data as StoreOrder | undefined;
   const isLoading = storeLoading || orderLoading;
+  const currency = useStoreCurrency();
 
   const handleProofSubmit = async () => {
     if (!proofFile || !storeSlug || !orderNumber) return;
@@ -128,13 +130,24 @@ export function OrderTrackingPage() {
   }
 
   if (isError || !order) {
+    // A dropped connection or a server error shouldn't tell the customer their order doesn't exist
+    const orderMissing = isNotFound(orderResponse) || (!isError && orderResponse?.success !== false);
     return (
       <Theme theme="white">
         <div className="order-tracking order-tracking--error">
           <WarningAlt size={64} />
-          <h1>Order Not Found</h1>
-          <p>We couldn&apos;t find an order with number <strong>{orderNumber}</strong>.</p>
-          <p>Please check the order number and try again.</p>
+          {orderMissing ? (
+            <>
+              <h1>Order Not Found</h1>
+              <p>We couldn&apos;t find an order with number <strong>{orderNumber}</strong>.</p>
+              <p>Please check the order number and try again.</p>
+            </>
+          ) : (
+            <>
+              <h1>Couldn&apos;t Load Your Order</h1>
+              <p>{orderResponse?.message ?? 'Something went wrong. Please try again.'}</p>
+            </>
+          )}
           <div className="order-tracking__error-actions">
             <Button kind="primary" onClick={() => refetch()}>
               Try Again
@@ -154,6 +167,17 @@ export function OrderTrackingPage() {
   const paymentConfig = PAYMENT_STATUS_CONFIG[order.paymentStatus as OrderPaymentStatus] || PAYMENT_STATUS_CONFIG[OrderPaymentStatus.UNPAID];
   const currentStepIndex = getStepIndex(order.status as OrderStatus);
   const isCancelled = order.status === OrderStatus.CANCELLED;
+  // VAT per rate, from the items that say what they were charged
+  const vatSummary = getVatSummary(
+    getVatBreakdown(order.items
+      .filter((item) => item.vatRate !== undefined)
+      .map((item) => ({
+        vatRate: item.vatRate ?? 0,
+        netKobo: item.unitPriceKobo * item.quantity,
+        taxKobo: item.taxKobo ?? 0,
+      }))),
+    order.taxKobo
+  );
 
   return (
     <Theme theme="white">
@@ -202,6 +226,11 @@ export function OrderTrackingPage() {
                     year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit',
                   })}
                 </p>
+                {order.scheduledFor && (
+                  <p className="order-tracking__order-date">
+                    Scheduled for {formatScheduledTime(order.scheduledFor, store ? getStoreTimeZone(store) : undefined)}
+                  </p>
+                )}
               </div>
               <div className="order-tracking__status-tags">
                 <Tag type={statusConfig.tagType as 'gray'} size="md">
@@ -258,11 +287,13 @@ export function OrderTrackingPage() {
                 <div key={item.id} className="order-tracking__item">
                   <div className="order-tracking__item-info">
                     <span className="order-tracking__item-name">{item.productName}</span>
+                    {item.variantName && <span className="order-tracking__item-variant">{item.variantName}</span>}
                     {item.productSku && <span className="order-tracking__item-sku">SKU: {item.productSku}</span>}
+                    {item.notes && <span className="order-tracking__item-notes">Note: {item.notes}</span>}
                   </div>
                   <div className="order-tracking__item-qty">x{item.quantity}</div>
                   <div className="order-tracking__item-price">
-                    {formatCurrency(item.totalKobo / 100)}
+                    {currency.format(item.totalKobo)}
                   </div>
                 </div>
               ))}
@@ -272,29 +303,34 @@ export function OrderTrackingPage() {
             <div className="order-tracking__totals">
               <div className="order-tracking__total-line">
                 <span>Subtotal</span>
-                <span>{formatCurrency(order.subtotalKobo / 100)}</span>
+                <span>{currency.format(order.subtotalKobo)}</span>
               </div>
-              {order.taxKobo > 0 && (
-                <div className="order-tracking__total-line">
-                  <span>VAT</span>
-                  <span>{formatCurrency(order.taxKobo / 100)}</span>
+              {vatSummary.map((row) => (
+                <div key={row.label} className="order-tracking__total-line">
+                  <span>
+                    {row.label}
+                    {row.netKobo !== undefined && (
+                      <span className="order-tracking__vat-base"> on {currency.format(row.netKobo)}</span>
+                    )}
+                  </span>
+                  <span>{currency.format(row.taxKobo)}</span>
                 </div>
-              )}
+              ))}
               {order.deliveryFeeKobo > 0 && (
                 <div className="order-tracking__total-line">
                   <span>Delivery Fee</span>
-                  <span>{formatCurrency(order.deliveryFeeKobo / 100)}</span>
+                  <span>{currency.format(order.deliveryFeeKobo)}</span>
                 </div>
               )}
               {order.discountKobo > 0 && (
                 <div className="order-tracking__total-line order-tracking__total-line--discount">
-                  <span>Discount</span>
-                  <span>-{formatCurrency(order.discountKobo / 100)}</span>
+                  <span>Discount{order.couponCode && ` (${order.couponCode})`}</span>
+                  <span>-{currency.format(order.discountKobo)}</span>
                 </div>
               )}
               <div className="order-tracking__total-line order-tracking__total-line--grand">
                 <span>Total</span>
-                <strong>{formatCurrency(order.totalKobo / 100)}</strong>
+                <strong>{currency.format(order.totalKobo)}</strong>
               </div>
             </div>
           </Tile>
@@ -427,6 +463,12 @@ export function OrderTrackingPage() {
                 {order.customerName && <p><strong>{order.customerName}</strong></p>}
                 {order.customerPhone && <p><Phone size={14} /> {order.customerPhone}</p>}
                 {order.customerEmail && <p><Email size={14} /> {order.customerEmail}</p>}
+                {order.timeSlot && (
+                  <p className="order-tracking__time-slot">
+                    <Time size={14} /> {order.fulfillmentType === 'DELIVERY' ? 'Arriving' : 'Ready for pickup'}{' '}
+                    {formatOrderTimeSlot(order.timeSlot, store ? getStoreTimeZone(store) : undefined)}
+                  </p>
+                )}
                 {order.customerAddress && <p><Location size={14} /> {order.customerAddress}</p>}
                 {order.deliveryNotes && (
                   <p className="order-tracking__notes">Notes: {order.deliveryNotes}</p>
@@ -1,8 +1,8 @@
 import { useParams, Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
 import { Helmet } from 'react-helmet-async';
 import { Theme, Button, Tag } from '@carbon/react';
-import { publicStoreApi } from '../services/api/public-store.api';
+import { useStore, useStoreProduct } from '../services/api/public-store.queries';
+import { isNotFound } from '../services/api/api-errors';
 import {
   ArrowLeft,
   ShoppingCart,
@@ -13,42 +13,57 @@ import {
   Phone,
   Email,
   Location,
+  WarningAlt,
 } from '@carbon/icons-react';
 import { useState } from 'react';
 import { useCart } from '@/context/CartContext';
+import { useStoreCurrency } from '@/context/store-currency';
+import { VariantPicker } from '@/components/VariantPicker';
+import { applyVariant, findVariant, getDefaultSelection, hasVariants, toCartItem } from '@/utils/product-variants';
+import type { VariantSelection } from '@/utils/product-variants';
+import { getCheckoutEligibility } from '@/utils/checkout-eligibility';
+import { describePromotion, getActivePromotions, getDisplayPrice } from '@/utils/promotions';
+import { describeVat, getTaxDisplayMode, withShelfPrices } from '@/utils/vat';
+import { getCategoryPath } from '@/utils/product-categories';
 import './PublicStorefrontPage.scss';
 import './ProductDetailPage.scss';
 
 export function ProductDetailPage() {
   const { storeSlug, productSlug } = useParams<{ storeSlug: string; productSlug: string }>();
-  const { addToCart, getCartItemCount } = useCart();
+  const { addToCart, getCartItemCount, getAvailability } = useCart();
   const [copied, setCopied] = useState(false);
   const [addedToCart, setAddedToCart] = useState(false);
   const [logoError, setLogoError] = useState(false);
+  const [selection, setSelection] = useState<VariantSelection | null>(null);
+  const currency = useStoreCurrency();
 
   const cartItemCount = getCartItemCount();
 
-  // Fetch store details
-  const { data: storeResponse, isLoading: storeLoading } = useQuery({
-    queryKey: ['public-store', storeSlug],
-    queryFn: async () => publicStoreApi.getStore(storeSlug!),
-    enabled: !!storeSlug,
-  });
-
-  // Fetch product details
-  const { data: productResponse, isLoading: productLoading } = useQuery({
-    queryKey: ['product', productSlug],
-    queryFn: async () => publicStoreApi.getProductBySlug(storeSlug!, productSlug!),
-    enabled: !!storeSlug && !!productSlug,
-  });
+  // Both are usually cached already when coming from the storefront
+  const { data: storeResponse, isLoading: storeLoading, refetch: refetchStore } = useStore(storeSlug);
+  const {
+    data: productResponse,
+    isLoading: productLoading,
+    refetch: refetchProduct,
+  } = useStoreProduct(storeSlug, productSlug);
 
   const isLoading = storeLoading || productLoading;
   const store = storeResponse?.data;
   const product = productResponse?.data;
 
+  // Until the customer picks, show the first variant that can be bought
+  const activeSelection = selection ?? (product ? getDefaultSelection(product) : {});
+  const withVariants = !!product && hasVariants(product);
+  const variant = product && withVariants ? findVariant(product, activeSelection) : undefined;
+  const shown = product && variant ? applyVariant(product, variant) : product;
+
+  // Same ordering rules as the storefront: paused stores can't take new items
+  const orderEligibility = store ? getCheckoutEligibility('add-to-cart', { store }) : undefined;
+
   const handleAddToCart = () => {
-    if (product) {
-      addToCart({ productId: product.id, product, quantity: 1 });
+    if (!product || !shown || (withVariants && !variant) || !orderEligibility?.eligible) return;
+    if (getAvailability(shown, variant?.id).canAdd) {
+      addToCart(toCartItem(product, variant, 1));
       setAddedToCart(true);
       setTimeout(() => setAddedToCart(false), 2000);
     }
@@ -101,7 +116,40 @@ export function ProductDetailPage() {
     );
   }
 
-  if (!product || !store) {
+  // Only a 404 means the product is gone; anything else is worth retrying
+  const failed = [storeResponse, productResponse].find((response) => response && !response.success);
+  if (failed && !isNotFound(failed)) {
+    return (
+      <Theme theme="white">
+        <div className="product-detail-page">
+          <div className="product-detail-not-found">
+            <div className="not-found-icon">
+              <WarningAlt size={64} />
+            </div>
+            <h1>Couldn't Load Product</h1>
+            <p>{failed.message ?? 'Something went wrong. Please try again.'}</p>
+            <div className="not-found-actions">
+              <Button
+                kind="primary"
+                onClick={() => {
+                  refetchStore();
+                  refetchProduct();
+                }}
+              >
+                Try Again
+              </Button>
+              <Link to={`/${storeSlug}`} className="back-to-store-btn">
+                <ArrowLeft size={20} />
+                Back to Store
+              </Link>
+            </div>
+          </div>
+        </div>
+      </Theme>
+    );
+  }
+
+  if (!product || !shown || !store) {
     return (
       <Theme theme="white">
         <div className="product-detail-page">
@@ -126,8 +174,14 @@ export function ProductDetailPage() {
     );
   }
 
-  const inStock = (product.stockQuantity || 0) > 0;
-  const price = product.unitPrice || 0;
+  const availability = getAvailability(shown, variant?.id);
+  const inStock = availability.maxQuantity > 0 && (!withVariants || !!variant);
+  const orderBlockedReason = orderEligibility?.reasons[0]?.message;
+  const taxDisplayMode = getTaxDisplayMode(store);
+  const displayPrice = getDisplayPrice(withShelfPrices(shown, taxDisplayMode, currency.code), new Date(), currency.code);
+  const vatNote = describeVat(product, taxDisplayMode);
+  const price = displayPrice.price || 0;
+  const activePromotions = getActivePromotions(store.promotions, product.id);
 
   return (
     <Theme theme="white">
@@ -140,7 +194,7 @@ export function ProductDetailPage() {
         <meta property="og:url" content={shareUrl} />
         <meta property="og:title" content={`${product.name} - ${store.storeName}`} />
         <meta property="og:description" content={product.description || ''} />
-        {product.imageUrl && <meta property="og:image" content={product.imageUrl} />}
+        {shown.imageUrl && <meta property="og:image" content={shown.imageUrl} />}
         <meta property="og:site_name" content="Accurify Storefront" />
 
         {/* Twitter */}
@@ -148,7 +202,7 @@ export function ProductDetailPage() {
         <meta name="twitter:url" content={shareUrl} />
         <meta name="twitter:title" content={`${product.name} - ${store.storeName}`} />
         <meta name="twitter:description" content={product.description || ''} />
-        {product.imageUrl && <meta name="twitter:image" content={product.imageUrl} />}
+        {shown.imageUrl && <meta name="twitter:image" content={shown.imageUrl} />}
 
         {/* Product Schema.org markup */}
         <script type="application/ld+json">
@@ -156,13 +210,13 @@ export function ProductDetailPage() {
             "@context": "https://schema.org/",
             "@type": "Product",
             "name": product.name,
-            "image": product.imageUrl || '',
+            "image": shown.imageUrl || '',
             "description": product.description || '',
-            "sku": product.sku || '',
+            "sku": shown.sku || '',
             "offers": {
               "@type": "Offer",
               "url": shareUrl,
-              "priceCurrency": "NGN",
+              "priceCurrency": currency.code,
               "price": price,
               "availability": inStock
                 ? "https://schema.org/InStock"
@@ -219,9 +273,9 @@ export function ProductDetailPage() {
         <div className="product-detail-container">
           {/* Product Image */}
           <div className="product-image-section">
-            {product.imageUrl ? (
+            {shown.imageUrl ? (
               <img
-                src={product.imageUrl}
+                src={shown.imageUrl}
                 alt={product.name}
                 className="product-image"
               />
@@ -237,25 +291,47 @@ export function ProductDetailPage() {
             <h1 className="product-name">{product.name}</h1>
 
             {product.category && (
-              <div className="product-category">{product.categoryDisplayName || product.category}</div>
+              <Link to={getCategoryPath(storeSlug!, product.category)} className="product-category">
+                {product.categoryDisplayName || product.category}
+              </Link>
             )}
 
             <div className="product-price">
-              ₦{price.toLocaleString('en-NG', { minimumFractionDigits: 2 })}
-              {product.taxable && product.vatRate && (
-                <span className="vat-info">
-                  (includes {product.vatRate}% VAT)
-                </span>
+              {currency.formatMajor(price)}
+              {displayPrice.compareAt !== undefined && (
+                <s className="compare-at">{currency.formatMajor(displayPrice.compareAt)}</s>
               )}
+              {vatNote && <span className="vat-info">({vatNote})</span>}
             </div>
 
+            {(displayPrice.saving || activePromotions.length > 0) && (
+              <div className="product-promotions">
+                {displayPrice.saving && (
+                  <Tag type="red" size="md">
+                    Save {currency.formatMajor(displayPrice.saving)}
+                  </Tag>
+                )}
+                {activePromotions.map((promotion) => (
+                  <Tag key={promotion.id} type="purple" size="md">{describePromotion(promotion, currency.code)}</Tag>
+                ))}
+              </div>
+            )}
+
+            {withVariants && (
+              <div className="product-variants">
+                <VariantPicker product={product} selection={activeSelection} onChange={setSelection} />
+              </div>
+            )}
+
             {/* Stock Status */}
             <div className={`stock-status ${inStock ? 'in-stock' : 'out-of-stock'}`}>
               {inStock ? (
                 <>
                   <Checkmark size={16} />
-                  In Stock ({product.stockQuantity} available)
+                  In Stock ({shown.stockQuantity} available)
                 </>
+              ) : withVariants && !variant ? (
+                'This combination is not available'
               ) : (
                 'Out of Stock'
               )}
@@ -273,19 +349,32 @@ export function ProductDetailPage() {
             <div className="product-details">
               <h3>Product Details</h3>
               <ul>
-                {product.sku && <li><strong>SKU:</strong> {product.sku}</li>}
+                {shown.sku && <li><strong>SKU:</strong> {shown.sku}</li>}
                 {product.unit && <li><strong>Unit:</strong> {product.unit}</li>}
                 {product.barcode && <li><strong>Barcode:</strong> {product.barcode}</li>}
               </ul>
             </div>
 
+            {orderBlockedReason && (
+              <div className="order-blocked-hint">{orderBlockedReason}</div>
+            )}
+
+            {inStock && availability.quantityInCart > 0 && (
+              <div className="cart-limit-hint">
+                {availability.canAdd
+                  ? `${availability.quantityInCart} in your cart`
+                  : `${availability.quantityInCart} in your cart — ${availability.reason}`}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="product-actions">
               <Button
                 kind="primary"
                 size="lg"
                 onClick={handleAddToCart}
-                disabled={!inStock}
+                disabled={!inStock || !availability.canAdd || !!orderBlockedReason}
+                title={orderBlockedReason ?? (availability.canAdd ? undefined : availability.reason)}
                 renderIcon={addedToCart ? Checkmark : ShoppingCart}
               >
                 {addedToCart ? 'Added to Cart!' : 'Add to Cart'}
@@ -2,8 +2,9 @@
  * Public Storefront Page - Customer-facing QuickStore page.
  * No authentication required.
  */
-import { useState, useEffect, useMemo } from 'react';
-import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useParams, useSearchParams, useNavigate, useLocation, Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import {
     Theme,
     Button,
@@ -13,10 +14,12 @@ import {
     Modal,
     Form,
     InlineNotification,
+    Checkbox,
     Select,
     SelectItem,
     SkeletonText,
     SkeletonPlaceholder,
+    InlineLoading,
 } from '@carbon/react';
 import {
     ShoppingCart,
@@ -33,44 +36,176 @@ import {
     ChevronDown,
     ChevronUp,
     ChatLaunch,
+    WarningAlt,
+    CloudOffline,
+    Share,
+    Checkmark,
+    Delivery,
 } from '@carbon/icons-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { publicStoreApi } from '@/services/api/public-store.api';
-import type { Store } from '@/types/store.types';
-import { FulfillmentType } from '@/types/store.types';
-import type { Product } from '@/types/product.types';
-import { formatCurrency } from '@/utils/currency';
+import { getFieldErrors, isNotFound, matchFieldErrors } from '@/services/api/api-errors';
+import { isRetryable } from '@/services/api/retry';
+import {
+    storeKeys,
+    usePrefetchProduct,
+    useProductCategories,
+    useStore,
+    useStoreProducts,
+} from '@/services/api/public-store.queries';
+import type { CartItem, CartProduct } from '@/services/api/public-store.api';
+import type { Store, CartQuote, CartQuoteLine, Coupon, DeliveryZone, OrderItemRequest, OrderRequest, Promotion } from '@/types/store.types';
+import { FulfillmentType, TaxDisplayMode } from '@/types/store.types';
+import type { Product, ProductVariant } from '@/types/product.types';
+import type { ApiResponse } from '@/types/api.types';
 import { useCart } from '@/context/CartContext';
+import { StoreCurrencyProvider } from '@/context/StoreCurrencyContext';
+import { createStoreCurrency, useStoreCurrency } from '@/context/store-currency';
+import type { CartLineAvailability } from '@/utils/cart-availability';
+import { MAX_LINE_NOTES_LENGTH, getStockKey } from '@/utils/cart-line';
+import { applyVariant, findVariant, getDefaultSelection, hasVariants, toCartItem } from '@/utils/product-variants';
+import { VariantPicker } from '@/components/VariantPicker';
+import {
+    getActiveZones,
+    getLowestZoneFee,
+    getZoneCoverage,
+    getZoneStates,
+    getZonesForState,
+} from '@/utils/delivery-zones';
+import { getCheckoutEligibility, getBlockingReasons } from '@/utils/checkout-eligibility';
+import {
+    DAY_KEYS,
+    describeStoreStatus,
+    formatDayName,
+    formatOpening,
+    formatScheduledTime,
+    formatTime,
+    getNextOpeningTime,
+    getStoreStatus,
+    getStoreTimeZone,
+    getZonedTime,
+    normalizeBusinessHours,
+} from '@/utils/business-hours';
+import type {
+    CheckoutContext,
+    CheckoutEligibility,
+    CheckoutStage,
+    PaymentMethod,
+} from '@/utils/checkout-eligibility';
+import {
+    CART_SHARE_PARAM,
+    decodeCartShare,
+    buildCartShareUrl,
+    resolveSharedCart,
+} from '@/utils/cart-share';
+import type { ResolvedSharedCart } from '@/utils/cart-share';
+import { describeCoupon, getQuoteCoupon } from '@/utils/coupons';
+import { describePromotion, getActivePromotions, getDisplayPrice } from '@/utils/promotions';
+import { add, money, multiply, subtract } from '@/utils/money';
+import {
+    describeVat,
+    getTaxDisplayMode,
+    getVatBreakdown,
+    getVatRate,
+    getVatSummary,
+    toShelfPriceKobo,
+    withShelfPrices,
+} from '@/utils/vat';
+import type { VatSummaryRow } from '@/utils/vat';
+import { buildTimeSlots, getTimeSlotWindow, groupTimeSlotsByDay, usesTimeSlots } from '@/utils/time-slots';
+import {
+    PRODUCT_SORT_OPTIONS,
+    DEFAULT_PRODUCT_FILTERS,
+    applyProductFilters,
+    fromFilterDraft,
+    hasActiveFilters,
+    isDraftInSync,
+    parseProductFilters,
+    toFilterDraft,
+    toProductSearchParams,
+} from '@/utils/product-query';
+import type { ProductFilterDraft, ProductFilters, ProductSort } from '@/utils/product-query';
+import { deriveCategoryFacets, fromCategorySlug, getCategoryPath, getVisibleFacets } from '@/utils/product-categories';
+import { getColumnCount } from '@/utils/virtual-grid';
+import { getScrollPosition, saveScrollPosition } from '@/utils/scroll-positions';
+import {
+    beginCheckoutAttempt,
+    clearCheckoutAttempt,
+    isAwaitingPayment,
+    isInFlight,
+    isPlaced,
+    loadCheckoutAttempt,
+    recordOrderFailed,
+    recordOrderPlaced,
+    recordOrderQueued,
+} from '@/utils/checkout-attempt';
+import type { CheckoutAttempt, PlacedCheckoutAttempt } from '@/utils/checkout-attempt';
+import { applyStoreManifest } from '@/utils/web-manifest';
+import { useOnlineStatus } from '@/context/online-status';
+import { VirtualGrid } from '@/components/VirtualGrid';
+import type { GridLayout } from '@/components/VirtualGrid';
+import { LazyImage } from '@/components/LazyImage';
 import './PublicStorefrontPage.scss';
 
-type CheckoutStep = 'cart' | 'details' | 'payment' | 'confirmation';
-type PaymentMethod = 'ONLINE' | 'BANK_TRANSFER' | 'CASH';
-type SortOption = 'default' | 'price-asc' | 'price-desc' | 'newest' | 'name-asc';
+type CheckoutStep = 'cart' | 'details' | 'payment' | 'queued' | 'confirmation';
 
-// Day names in order for business hours display
-const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+// Wait for the customer to stop typing before searching
+const FILTER_DEBOUNCE_MS = 300;
+
+// Same columns as the storefront__grid styles: 250px cards, two abreast on the narrowest phones
+function getProductGridLayout(width: number): GridLayout {
+    if (width > 0 && width < 320) return { columns: 2, gap: 8 };
+    return { columns: getColumnCount(width, 250, 16), gap: 16 };
+}
+
+// Card height before any has been measured
+const ESTIMATED_CARD_HEIGHT = 320;
+
+// Picker value for "my state/area isn't in the list"
+const UNLISTED_ZONE = '__unlisted';
+
+/**
+ * A store offering only one way to get the order needs no choice from the customer.
+ */
+function getDefaultFulfillment(store: Store): FulfillmentType | undefined {
+    if (store.pickupAvailable && !store.deliveryAvailable) return FulfillmentType.PICKUP;
+    if (store.deliveryAvailable && !store.pickupAvailable) return FulfillmentType.DELIVERY;
+    return undefined;
+}
 
 /**
- * Get the current day name (e.g., "Monday").
+ * Delivery fee and total for the chosen fulfillment. A delivery quote may still be on
+ * screen while the pickup one loads, so never charge delivery on a pickup. The fee
+ * itself is always the quote's; zones are only for labelling it. Promotions and the
+ * promo code are already out of the quote's total. Inclusive stores show the
+ * subtotal with its VAT.
  */
-function getCurrentDayName(): string {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return days[new Date().getDay()];
+function getQuoteTotals(quote: CartQuote, fulfillmentType: FulfillmentType | undefined) {
+    const inQuoteCurrency = (amount: number) => money(amount, quote.currency);
+    const deliveryFee = inQuoteCurrency(fulfillmentType === FulfillmentType.DELIVERY ? quote.deliveryFeeKobo : 0);
+    const couponDiscount = inQuoteCurrency(quote.coupon?.discountKobo ?? 0);
+    // Goods after promotions, counted before the code comes off
+    const goodsTotal = add(subtract(inQuoteCurrency(quote.totalKobo), inQuoteCurrency(quote.deliveryFeeKobo)), couponDiscount);
+    return {
+        deliveryFeeKobo: deliveryFee.amount,
+        totalKobo: subtract(add(goodsTotal, deliveryFee), couponDiscount).amount,
+        goodsTotalKobo: goodsTotal.amount,
+        subtotalWithVatKobo: add(inQuoteCurrency(quote.subtotalKobo), inQuoteCurrency(quote.taxKobo)).amount,
+    };
 }
 
 /**
- * Format time string (e.g., "09:00" -> "9:00 AM", "17:00" -> "5:00 PM").
+ * The cart as order lines, for placing the order or checking a promo code against it.
  */
-function formatTime(time: string): string {
-    const [hourStr, minuteStr] = time.split(':');
-    const hour = parseInt(hourStr, 10);
-    const minute = minuteStr || '00';
-    if (hour === 0) return `12:${minute} AM`;
-    if (hour < 12) return `${hour}:${minute} AM`;
-    if (hour === 12) return `12:${minute} PM`;
-    return `${hour - 12}:${minute} PM`;
+function toOrderItems(cart: CartItem[]): OrderItemRequest[] {
+    return cart.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        notes: item.notes,
+    }));
 }
 
 const checkoutSchema = z.object({
@@ -80,36 +215,79 @@ const checkoutSchema = z.object({
         .max(15, 'Phone number is too long')
         .regex(/^[+]?[\d\s()-]+$/, 'Invalid phone number format'),
     email: z.string().email('Please enter a valid email address'),
+    fulfillmentType: z.enum(FulfillmentType, { error: 'Choose pickup or delivery' }),
     address: z.string(),
     deliveryNotes: z.string().max(500, 'Notes must be under 500 characters'),
+}).superRefine((data, ctx) => {
+    // Only deliveries need somewhere to deliver to
+    if (data.fulfillmentType === FulfillmentType.DELIVERY && data.address.trim().length < 5) {
+        ctx.addIssue({ code: 'custom', path: ['address'], message: 'Please enter your delivery address' });
+    }
 });
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
 
+// Order request fields the server may refuse, and the checkout field each belongs to
+const ORDER_FORM_FIELDS: Partial<Record<keyof OrderRequest, keyof CheckoutFormData>> = {
+    customerName: 'name',
+    customerPhone: 'phone',
+    customerEmail: 'email',
+    customerAddress: 'address',
+    deliveryNotes: 'deliveryNotes',
+    fulfillmentType: 'fulfillmentType',
+};
+
 export function PublicStorefrontPage() {
-    const { slug } = useParams<{ slug: string }>();
-    const [searchParams] = useSearchParams();
+    const { slug, category: categorySlug } = useParams<{ slug: string; category?: string }>();
+    const [searchParams, setSearchParams] = useSearchParams();
     const navigate = useNavigate();
-    const { cart, addToCart, updateQuantity, removeFromCart, clearCart, getCartItemCount } = useCart();
+    const location = useLocation();
+    const {
+        cart,
+        addToCart,
+        updateQuantity,
+        updateNotes,
+        removeFromCart,
+        clearCart,
+        importCart,
+        getCartItemCount,
+        getAvailability,
+        cartIssues,
+        acceptCartChanges,
+    } = useCart();
+
+    const { data: storeResponse, isLoading: loading, isError: storeFailed, refetch: refetchStore } = useStore(slug);
+    const store = storeResponse?.success && storeResponse.data ? storeResponse.data : null;
+    const storeUnavailable = storeFailed || (storeResponse && !storeResponse.success);
+    const online = useOnlineStatus();
 
     // State
     const [logoError, setLogoError] = useState(false);
-    const [store, setStore] = useState<Store | null>(null);
-    const [products, setProducts] = useState<Product[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [loadingMore, setLoadingMore] = useState(false);
-    const [hasMore, setHasMore] = useState(false);
-    const [currentPage, setCurrentPage] = useState(0);
-    const [error, setError] = useState<string | null>(null);
     const [cartOpen, setCartOpen] = useState(false);
     const [checkoutStep, setCheckoutStep] = useState<CheckoutStep>('cart');
     const [orderNumber, setOrderNumber] = useState<string | null>(null);
     const [submitting, setSubmitting] = useState(false);
-    const [searchQuery, setSearchQuery] = useState('');
-    const [sortOption, setSortOption] = useState<SortOption>('default');
+    const [orderError, setOrderError] = useState<string | null>(null);
+    // An order placed offline, waiting for the connection to come back
+    const [orderQueued, setOrderQueued] = useState(() => !!slug && !!loadCheckoutAttempt(slug)?.queued);
+    // Why the last try at opening or confirming an online payment didn't go through
+    const [paymentError, setPaymentError] = useState<string | null>(null);
     const [hoursExpanded, setHoursExpanded] = useState(false);
     const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod | null>(null);
-    const PAGE_SIZE = 24;
+    const [cartLinkCopied, setCartLinkCopied] = useState(false);
+    // Shown for copying by hand when the clipboard refuses (permissions, insecure context)
+    const [cartCopyFailed, setCartCopyFailed] = useState(false);
+    const [deliveryState, setDeliveryState] = useState('');
+    const [deliveryZoneId, setDeliveryZoneId] = useState('');
+    const [scheduleWhenOpen, setScheduleWhenOpen] = useState(false);
+    const [timeSlotStart, setTimeSlotStart] = useState('');
+    const [couponInput, setCouponInput] = useState('');
+    const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+    const [couponError, setCouponError] = useState<string | null>(null);
+    const [applyingCoupon, setApplyingCoupon] = useState(false);
+    const [timeSlotDay, setTimeSlotDay] = useState<number | null>(null);
+    // Re-evaluated every minute so the open/closed state doesn't go stale
+    const [now, setNow] = useState(() => new Date());
 
     // Checkout form with Zod validation
     const {
@@ -118,66 +296,222 @@ export function PublicStorefrontPage() {
         watch,
         formState: { errors },
         getValues,
+        setValue,
+        setError: setFieldError,
     } = useForm<CheckoutFormData>({
         resolver: zodResolver(checkoutSchema),
         defaultValues: { name: '', phone: '', email: '', address: '', deliveryNotes: '' },
     });
     const watchedEmail = watch('email');
-    const watchedAddress = watch('address');
+    const watchedFulfillment = watch('fulfillmentType');
+    const isDelivery = watchedFulfillment === FulfillmentType.DELIVERY;
 
-    // Load store and first page of products
+    // Preselect pickup or delivery when the store only offers one
     useEffect(() => {
-        async function loadStore() {
-            if (!slug) return;
+        if (!store || getValues('fulfillmentType')) return;
+        const fulfillment = getDefaultFulfillment(store);
+        if (fulfillment) setValue('fulfillmentType', fulfillment);
+    }, [store, getValues, setValue]);
 
-            try {
-                setLoading(true);
-                setError(null);
-
-                const [storeRes, productsRes] = await Promise.all([
-                    publicStoreApi.getStore(slug),
-                    publicStoreApi.getProducts(slug, 0, PAGE_SIZE),
-                ]);
-
-                if (storeRes.success && storeRes.data) {
-                    setStore(storeRes.data);
-                } else {
-                    setError('Store not found');
-                }
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(new Date()), 60_000);
+        return () => window.clearInterval(timer);
+    }, []);
 
-                if (productsRes.success && productsRes.data) {
-                    setProducts(productsRes.data.content);
-                    setHasMore(!productsRes.data.last);
-                    setCurrentPage(0);
-                }
-            } catch (err) {
-                console.error('Failed to load store:', err);
-                setError('Store not found or unavailable');
-            } finally {
-                setLoading(false);
+    // Search, filters and sort live in the URL and run on the server; the category is in the path
+    const routeCategory = categorySlug ? fromCategorySlug(categorySlug) : '';
+    const productFilters = useMemo(
+        () => parseProductFilters(searchParams, routeCategory),
+        [searchParams, routeCategory]
+    );
+    const { category, inStock, sort } = productFilters;
+    const filterTimer = useRef<number | undefined>(undefined);
+    const [filterDraft, setFilterDraft] = useState<ProductFilterDraft>(() => toFilterDraft(productFilters));
+
+    // Links from before categories had their own route: /shop?category=FOOD
+    const legacyCategory = searchParams.get('category');
+    useEffect(() => {
+        if (!slug || !legacyCategory) return;
+        const params = new URLSearchParams(searchParams);
+        params.delete('category');
+        navigate(getCategoryPath(slug, routeCategory || legacyCategory, params.toString()), { replace: true });
+    }, [slug, legacyCategory, routeCategory, searchParams, navigate]);
+
+    // Back/forward or a shared link changed the filters: show them in the inputs
+    const [syncedFilters, setSyncedFilters] = useState(productFilters);
+    if (syncedFilters !== productFilters) {
+        setSyncedFilters(productFilters);
+        if (!isDraftInSync(filterDraft, productFilters)) setFilterDraft(toFilterDraft(productFilters));
+    }
+
+    const updateProductFilters = useCallback((changes: Partial<ProductFilters>) => {
+        // Changing category changes the route; the rest of the query comes along
+        if (slug && changes.category !== undefined && changes.category !== routeCategory) {
+            const params = applyProductFilters(searchParams, { ...parseProductFilters(searchParams), ...changes });
+            navigate(getCategoryPath(slug, changes.category, params.toString()), { replace: true });
+            return;
+        }
+        setSearchParams(
+            (prev) => applyProductFilters(prev, { ...parseProductFilters(prev, routeCategory), ...changes }),
+            { replace: true }
+        );
+    }, [slug, routeCategory, searchParams, navigate, setSearchParams]);
+
+    const handleFilterDraftChange = (changes: Partial<ProductFilterDraft>) => {
+        const draft = { ...filterDraft, ...changes };
+        setFilterDraft(draft);
+        window.clearTimeout(filterTimer.current);
+        filterTimer.current = window.setTimeout(() => updateProductFilters(fromFilterDraft(draft)), FILTER_DEBOUNCE_MS);
+    };
+
+    const clearProductFilters = () => {
+        window.clearTimeout(filterTimer.current);
+        setFilterDraft(toFilterDraft(DEFAULT_PRODUCT_FILTERS));
+        updateProductFilters({ ...DEFAULT_PRODUCT_FILTERS, sort });
+    };
+
+    useEffect(() => () => window.clearTimeout(filterTimer.current), []);
+
+    // The catalogue for the current filters, a page at a time; a newer search
+    // cancels the one in flight, and results stay cached for when they come Back
+    const productQuery = useMemo(() => toProductSearchParams(productFilters), [productFilters]);
+    const {
+        data: productPages,
+        isPending: productsPending,
+        isPlaceholderData: productsStale,
+        isError: productsFailed,
+        hasNextPage,
+        fetchNextPage,
+        isFetchingNextPage: loadingMore,
+        isFetchNextPageError: loadMoreFailed,
+        refetch: refetchProducts,
+    } = useStoreProducts(slug, productQuery);
+    const products = useMemo(() => productPages?.pages.flatMap((page) => page.content) ?? [], [productPages]);
+
+    // Next page for the same filters, as the customer scrolls near the end
+    const handleLoadMore = () => {
+        if (hasNextPage && !loadingMore && !productsStale) fetchNextPage();
+    };
+
+    // Back from a product page: return to the same spot in the list
+    const scrollY = useRef(0);
+    useEffect(() => {
+        const track = () => {
+            scrollY.current = window.scrollY;
+        };
+        window.addEventListener('scroll', track, { passive: true });
+        return () => window.removeEventListener('scroll', track);
+    }, []);
+
+    useEffect(() => {
+        const key = location.key;
+        return () => saveScrollPosition(key, scrollY.current);
+    }, [location.key]);
+
+    // Scroll back once the products are on screen. The grid sizes its rows over
+    // the first few frames, so keep trying until the page is tall enough.
+    const pendingScroll = useRef(getScrollPosition(location.key));
+    useEffect(() => {
+        if (!store || productsPending || pendingScroll.current === undefined) return;
+        let frame = 0;
+        let attempts = 0;
+        const restore = () => {
+            const target = pendingScroll.current ?? 0;
+            window.scrollTo(0, target);
+            if (Math.abs(window.scrollY - target) > 1 && ++attempts < 10) {
+                frame = requestAnimationFrame(restore);
+            } else {
+                pendingScroll.current = undefined;
             }
+        };
+        restore();
+        return () => cancelAnimationFrame(frame);
+    }, [store, productsPending]);
+
+    // Category rail: counts from the server, or whatever the loaded products show
+    const { data: categoriesResponse } = useProductCategories(slug);
+
+    const categoryFacets = useMemo(() => {
+        const facets = categoriesResponse?.success && categoriesResponse.data
+            ? categoriesResponse.data
+            : deriveCategoryFacets(products);
+        const visible = getVisibleFacets(facets);
+        // A shared link to a category the rail doesn't know yet still gets a chip
+        if (category && !visible.some((facet) => facet.category === category)) {
+            const product = products.find((p) => p.category === category);
+            visible.push({ category, displayName: product?.categoryDisplayName || category });
         }
+        return visible;
+    }, [categoriesResponse, products, category]);
 
-        loadStore();
-    }, [slug]);
+    const totalProductCount = categoryFacets.every((facet) => facet.count !== undefined)
+        ? categoryFacets.reduce((total, facet) => total + (facet.count ?? 0), 0)
+        : undefined;
 
-    // Load more products
-    const handleLoadMore = async () => {
-        if (!slug || loadingMore) return;
-        try {
-            setLoadingMore(true);
-            const nextPage = currentPage + 1;
-            const res = await publicStoreApi.getProducts(slug, nextPage, PAGE_SIZE);
-            if (res.success && res.data) {
-                setProducts((prev) => [...prev, ...res.data!.content]);
-                setHasMore(!res.data.last);
-                setCurrentPage(nextPage);
+    // Chips keep the search, price range and sort; only the category changes
+    const queryString = applyProductFilters(searchParams, productFilters).toString();
+
+    // Shared cart link (?cart=...) — validate every line before offering to import it
+    const sharedCartParam = searchParams.get(CART_SHARE_PARAM);
+    const sharedLines = useMemo(
+        () => (sharedCartParam ? decodeCartShare(sharedCartParam) : []),
+        [sharedCartParam]
+    );
+
+    const { data: sharedCart, isLoading: sharedCartLoading } = useQuery({
+        queryKey: storeKeys.sharedCart(slug!, sharedCartParam),
+        queryFn: async () => {
+            const responses = await Promise.all(
+                sharedLines.map((line) => publicStoreApi.getProduct(slug!, line.productId))
+            );
+            return resolveSharedCart(
+                sharedLines,
+                responses.map((res) => {
+                    if (res.success && res.data) return res.data;
+                    // Only a 404 means the product is gone; any other failure leaves it unknown
+                    return isNotFound(res) ? null : undefined;
+                })
+            );
+        },
+        enabled: !!slug && sharedLines.length > 0,
+        staleTime: Infinity,
+    });
+
+    const dismissSharedCart = () => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            next.delete(CART_SHARE_PARAM);
+            return next;
+        }, { replace: true });
+    };
+
+    const handleImportSharedCart = (mode: 'replace' | 'merge') => {
+        if (sharedCart) importCart(sharedCart.items, mode);
+        dismissSharedCart();
+        setCheckoutStep('cart');
+        setCartOpen(true);
+    };
+
+    const handleShareCart = async () => {
+        if (!slug) return;
+        const url = buildCartShareUrl(window.location.origin, slug, cart);
+        if (navigator.share) {
+            try {
+                await navigator.share({ title: `My cart at ${store?.storeName}`, url });
+            } catch {
+                // User cancelled share
             }
-        } catch (err) {
-            console.error('Failed to load more products:', err);
-        } finally {
-            setLoadingMore(false);
+            return;
         }
+        try {
+            await navigator.clipboard.writeText(url);
+        } catch {
+            setCartCopyFailed(true);
+            return;
+        }
+        setCartCopyFailed(false);
+        setCartLinkCopied(true);
+        setTimeout(() => setCartLinkCopied(false), 2000);
     };
 
     // Handle payment callback — redirect to order tracking page
@@ -190,7 +524,16 @@ export function PublicStorefrontPage() {
                 .then((res) => {
                     if (res.success) {
                         clearCart();
+                        clearCheckoutAttempt(slug);
                         navigate(`/${slug}/orders/${orderNum}`, { replace: true });
+                        return;
+                    }
+                    // Not paid after all: the order is still waiting, so offer to pay again
+                    const attempt = loadCheckoutAttempt(slug);
+                    if (attempt?.orderNumber === orderNum && isAwaitingPayment(attempt)) {
+                        restoreCheckoutForm(attempt.request);
+                        showAwaitingPayment(orderNum, res.message ?? "We couldn't confirm your payment. Please try again.");
+                        setCartOpen(true);
                     }
                 })
                 .catch((err) => {
@@ -200,62 +543,140 @@ export function PublicStorefrontPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [searchParams, slug]);
 
-    // Filtered and sorted products
-    const filteredProducts = useMemo(() => {
-        let result = products;
-
-        // Apply search filter
-        if (searchQuery.trim()) {
-            const query = searchQuery.toLowerCase();
-            result = result.filter(
-                (p) =>
-                    p.name.toLowerCase().includes(query) ||
-                    (p.description && p.description.toLowerCase().includes(query))
-            );
-        }
+    // Installing from a store page installs that store
+    useEffect(() => (store ? applyStoreManifest(store) : undefined), [store]);
 
-        // Apply sorting
-        if (sortOption !== 'default') {
-            result = [...result].sort((a, b) => {
-                switch (sortOption) {
-                    case 'price-asc':
-                        return a.unitPrice - b.unitPrice;
-                    case 'price-desc':
-                        return b.unitPrice - a.unitPrice;
-                    case 'newest':
-                        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-                    case 'name-asc':
-                        return a.name.localeCompare(b.name);
-                    default:
-                        return 0;
-                }
-            });
-        }
+    // Server-priced cart — every total shown to the customer comes from the quote.
+    // Until the customer chooses, price the goods alone (pickup carries no fee).
+    const fulfillmentType = watchedFulfillment ?? FulfillmentType.PICKUP;
+    const deliveryZones = useMemo(() => (store ? getActiveZones(store) : []), [store]);
+    const usesDeliveryZones = deliveryZones.length > 0;
+    const selectedZone = isDelivery ? deliveryZones.find((zone) => zone.id === deliveryZoneId) : undefined;
+    const zoneUncovered = deliveryState === UNLISTED_ZONE || deliveryZoneId === UNLISTED_ZONE;
+    const quoteItems = useMemo(
+        () => cart.map((item) => ({
+            lineId: item.lineId,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            notes: item.notes,
+        })),
+        [cart]
+    );
 
-        return result;
-    }, [products, searchQuery, sortOption]);
+    const {
+        data: quoteResponse,
+        isFetching: quoteFetching,
+        isError: quoteFailed,
+        refetch: refetchQuote,
+    } = useQuery({
+        queryKey: storeKeys.cartQuote(slug!, {
+            fulfillmentType,
+            zoneId: selectedZone?.id,
+            couponCode: appliedCoupon?.code,
+            items: quoteItems,
+        }),
+        queryFn: () => publicStoreApi.quoteCart(slug!, quoteItems, fulfillmentType, selectedZone?.id, appliedCoupon?.code),
+        enabled: !!slug && cartOpen && quoteItems.length > 0,
+        placeholderData: keepPreviousData,
+        staleTime: 30_000,
+    });
 
-    // Cart calculations
-    const cartSubtotal = useMemo(() => {
-        return cart.reduce((sum, item) => sum + item.product.unitPrice * 100 * item.quantity, 0);
-    }, [cart]);
+    const quote = quoteResponse?.success ? quoteResponse.data : undefined;
+    const quoteError = quoteFailed || (quoteResponse && !quoteResponse.success);
+    // Matched on the echoed line ID, not position: one product can appear on
+    // several lines, and a previous quote stays on screen while the cart changes
+    const quoteLines = useMemo(
+        () => new Map<string, CartQuoteLine>(quote?.lines.map((line) => [line.lineId, line])),
+        [quote]
+    );
+    const quoteHasWarnings = !!quote?.lines.some((line) => line.warnings.length > 0);
+    const hasCartIssues = cartIssues.length > 0;
+    const cartExceedsStock = cart.some((item) => getAvailability(item.product, item.variantId).exceedsStock);
+    // Store currency for totals and messages; the components below read it from context
+    const currency = useMemo(() => createStoreCurrency(store?.currency), [store?.currency]);
+    // VAT shown per rate; inclusive stores fold it into the prices they show
+    const taxDisplayMode = store ? getTaxDisplayMode(store) : TaxDisplayMode.EXCLUSIVE;
+    const getLineVatRate = (item: CartItem) => quoteLines.get(item.lineId)?.vatRate ?? getVatRate(item.product);
+    const vatSummary = quote
+        ? getVatSummary(
+            getVatBreakdown(cart.flatMap((item) => {
+                const line = quoteLines.get(item.lineId);
+                if (!line) return [];
+                const net = subtract(
+                    multiply(money(line.unitPriceKobo, quote.currency), line.quantity),
+                    money(line.discountKobo, quote.currency)
+                );
+                return [{ vatRate: getLineVatRate(item), netKobo: net.amount, taxKobo: line.taxKobo }];
+            })),
+            quote.taxKobo
+        )
+        : [];
+    const quoteTotals = quote
+        ? getQuoteTotals(quote, watchedFulfillment)
+        : undefined;
+    // Minimum order applies to the goods, not the delivery fee
+    const quoteGoodsTotal = quoteTotals?.goodsTotalKobo ?? 0;
+    // Priced into every quote: a code can stop applying as the cart or fulfillment changes
+    const quoteCoupon = getQuoteCoupon(quote, appliedCoupon?.code);
+    const couponDiscount = quoteCoupon && !quoteCoupon.rejection
+        ? { code: quoteCoupon.code, discountKobo: quoteCoupon.discountKobo }
+        : undefined;
 
-    const cartVat = useMemo(() => {
-        return cart.reduce((sum, item) => {
-            if (item.product.taxable && item.product.vatRate > 0) {
-                return sum + (item.product.unitPrice * 100 * item.quantity * item.product.vatRate / 100);
-            }
-            return sum;
-        }, 0);
-    }, [cart]);
+    // Pickup/delivery time slots, with bookings so full slots can't be chosen
+    const booksTimeSlots = !!store && usesTimeSlots(store);
+    const timeSlotWindow = store && booksTimeSlots ? getTimeSlotWindow(store, now) : undefined;
+    const { data: bookingsResponse } = useQuery({
+        queryKey: storeKeys.timeSlotBookings(slug!, fulfillmentType, timeSlotWindow?.from),
+        queryFn: () => publicStoreApi.getTimeSlotBookings(slug!, fulfillmentType, timeSlotWindow!.from, timeSlotWindow!.to),
+        enabled: !!slug && !!timeSlotWindow && checkoutStep === 'details' && !!watchedFulfillment,
+        staleTime: 30_000,
+        refetchInterval: 60_000,
+    });
+    const timeSlots = useMemo(
+        () => (store && booksTimeSlots ? buildTimeSlots(store, now, bookingsResponse?.data ?? []) : []),
+        [store, booksTimeSlots, now, bookingsResponse]
+    );
+    const timeSlotDays = groupTimeSlotsByDay(timeSlots);
+    const activeSlotDay = timeSlotDays.find((day) => day.dayOffset === timeSlotDay) ?? timeSlotDays[0];
+    const selectedTimeSlot = timeSlots.find((slot) => slot.start === timeSlotStart);
 
-    const cartTotal = cartSubtotal + cartVat;
+    // Business hours on the store's clock, not the visitor's
+    const storeTimeZone = store ? getStoreTimeZone(store) : undefined;
+    const weeklyHours = normalizeBusinessHours(store?.businessHours);
+    const hasHours = Object.keys(weeklyHours).length > 0;
+    const storeStatus = getStoreStatus(store?.businessHours, now, storeTimeZone);
+    const storeToday = getZonedTime(now, storeTimeZone).day;
+    // Only applies while closed; once the store opens the order goes through as normal
+    const scheduledFor = scheduleWhenOpen ? getNextOpeningTime(storeStatus, now)?.toISOString() : undefined;
+
+    // One set of ordering rules for the cart, checkout, WhatsApp and add-to-cart
+    const checkoutContext: CheckoutContext | null = store
+        ? {
+            store,
+            itemCount: cart.length,
+            goodsTotalKobo: quote ? quoteGoodsTotal : undefined,
+            fulfillmentType: watchedFulfillment,
+            deliveryZone: selectedZone,
+            deliveryAreaUncovered: isDelivery && zoneUncovered,
+            paymentMethod: selectedPaymentMethod ?? undefined,
+            scheduledFor,
+            timeSlot: selectedTimeSlot,
+            now,
+        }
+        : null;
+    const checkEligibility = (stage: CheckoutStage): CheckoutEligibility =>
+        checkoutContext ? getCheckoutEligibility(stage, checkoutContext) : { eligible: false, reasons: [] };
+    const addToCartEligibility = checkEligibility('add-to-cart');
+    const cartEligibility = checkEligibility('cart');
+    const detailsEligibility = checkEligibility('details');
+    const whatsappEligibility = checkEligibility('whatsapp');
 
     const cartItemCount = getCartItemCount();
 
     // Helper function to add product to cart
-    const handleAddToCart = (product: Product) => {
-        addToCart({ productId: product.id, product, quantity: 1 });
+    const handleAddToCart = (product: Product, variant?: ProductVariant) => {
+        addToCart(toCartItem(product, variant, 1));
     };
 
     // Generate WhatsApp order message
@@ -265,75 +686,279 @@ export function PublicStorefrontPage() {
             '',
         ];
 
-        cart.forEach((item) => {
-            lines.push(`- ${item.product.name} x${item.quantity} @ ${formatCurrency(item.product.unitPrice)} each`);
+        if (!quote) return lines.join('\n');
+
+        quote.lines.forEach((line) => {
+            const item = cart.find((cartItem) => cartItem.lineId === line.lineId);
+            const name = item?.variantLabel ? `${line.productName} (${item.variantLabel})` : line.productName;
+            const vatRate = line.vatRate ?? (item ? getVatRate(item.product) : 0);
+            const unitPriceKobo = toShelfPriceKobo(line.unitPriceKobo, vatRate, taxDisplayMode, currency.code);
+            lines.push(`- ${name} x${line.quantity} @ ${currency.format(unitPriceKobo)} each`);
+            if (item?.notes) lines.push(`  Note: ${item.notes}`);
+            if (line.promotion && line.discountKobo > 0) {
+                lines.push(`  ${line.promotion.label}: ${line.promotion.explanation} (-${currency.format(line.discountKobo)})`);
+            }
         });
 
+        const totals = getQuoteTotals(quote, watchedFulfillment);
         lines.push('');
-        lines.push(`Subtotal: ${formatCurrency(cartSubtotal / 100)}`);
-        if (cartVat > 0) {
-            lines.push(`VAT: ${formatCurrency(cartVat / 100)}`);
+        if (taxDisplayMode === TaxDisplayMode.INCLUSIVE) {
+            lines.push(`Subtotal (incl. VAT): ${currency.format(totals.subtotalWithVatKobo)}`);
+        } else {
+            lines.push(`Subtotal: ${currency.format(quote.subtotalKobo)}`);
+            vatSummary.forEach((row) => lines.push(`${row.label}: ${currency.format(row.taxKobo)}`));
+        }
+        if (quote.discountKobo > 0) {
+            lines.push(`Promotions: -${currency.format(quote.discountKobo)}`);
+        }
+        if (totals.deliveryFeeKobo > 0) {
+            const zoneName = selectedZone ? ` (${selectedZone.name})` : '';
+            lines.push(`Delivery${zoneName}: ${currency.format(totals.deliveryFeeKobo)}`);
+        }
+        if (couponDiscount) {
+            lines.push(`Promo (${couponDiscount.code}): -${currency.format(couponDiscount.discountKobo)}`);
+        }
+        lines.push(`Total: ${currency.format(totals.totalKobo)}`);
+        if (taxDisplayMode === TaxDisplayMode.INCLUSIVE) {
+            vatSummary.forEach((row) => lines.push(`Includes ${row.label}: ${currency.format(row.taxKobo)}`));
+        }
+        if (scheduledFor) {
+            lines.push('');
+            lines.push(`Scheduled for: ${formatScheduledTime(scheduledFor, storeTimeZone)}`);
         }
-        lines.push(`Total: ${formatCurrency(cartTotal / 100)}`);
         lines.push('');
         lines.push('Please confirm availability and payment details. Thank you!');
 
         return lines.join('\n');
     };
 
+    const handleApplyCoupon = async () => {
+        const code = couponInput.trim();
+        if (!slug || !code) return;
+
+        try {
+            setApplyingCoupon(true);
+            setCouponError(null);
+            const res = await publicStoreApi.validateCoupon(slug, code, toOrderItems(cart));
+            if (res.success && res.data?.valid && res.data.coupon) {
+                setAppliedCoupon(res.data.coupon);
+                setCouponInput('');
+            } else {
+                setCouponError(res.data?.rejection?.message ?? res.message ?? "That code isn't valid");
+            }
+        } catch (err) {
+            console.error('Failed to validate coupon:', err);
+            setCouponError("Couldn't check that code. Please try again.");
+        } finally {
+            setApplyingCoupon(false);
+        }
+    };
+
+    const handleRemoveCoupon = () => {
+        setAppliedCoupon(null);
+        setCouponError(null);
+    };
+
     // Open WhatsApp with pre-filled order message
     const handleWhatsAppOrder = () => {
-        if (!store?.whatsappNumber) return;
+        if (!store?.whatsappNumber || !quote || !whatsappEligibility.eligible) return;
         const message = encodeURIComponent(generateWhatsAppMessage());
         const whatsappUrl = `https://wa.me/${store.whatsappNumber.replace(/[^0-9+]/g, '')}?text=${message}`;
         window.open(whatsappUrl, '_blank', 'noopener,noreferrer');
     };
 
+    const showOrderPlaced = (placedOrderNumber: string) => {
+        setOrderNumber(placedOrderNumber);
+        setCheckoutStep('confirmation');
+        setScheduleWhenOpen(false);
+        setTimeSlotStart('');
+        setAppliedCoupon(null);
+        setOrderQueued(false);
+        clearCart();
+        if (slug) clearCheckoutAttempt(slug);
+    };
+
+    const showOrderFailure = (orderRes: ApiResponse<unknown>) => {
+        // Refused fields are marked on the form; anything else goes above it
+        const { fields, other } = matchFieldErrors(getFieldErrors(orderRes), ORDER_FORM_FIELDS);
+        Object.entries(fields).forEach(([field, message]) => {
+            setFieldError(field as keyof CheckoutFormData, { type: 'server', message });
+        });
+        const markedOnForm = Object.keys(fields).length > 0;
+        setOrderError(other.length
+            ? other.join(' ')
+            : markedOnForm ? null : orderRes.message ?? "We couldn't place your order. Please try again.");
+    };
+
+    // Offline, the order is kept with its key and sent when the connection returns
+    const queueOrder = (attempt: CheckoutAttempt) => {
+        if (!slug) return;
+        recordOrderQueued(slug, attempt);
+        setOrderQueued(true);
+        setCheckoutStep('queued');
+    };
+
+    // Placed but not paid: the cart and the attempt stay until the payment is verified
+    const showAwaitingPayment = (placedOrderNumber: string, error: string | null = null) => {
+        setOrderNumber(placedOrderNumber);
+        setOrderQueued(false);
+        setPaymentError(error);
+        setCheckoutStep('payment');
+    };
+
+    // Send the customer to pay for a placed order, under the order's payment key
+    const startPayment = async (placed: PlacedCheckoutAttempt) => {
+        if (!slug) return;
+        const callbackUrl = `${window.location.origin}/${slug}?order=${placed.orderNumber}`;
+        const paymentRes = await publicStoreApi.initializePayment(
+            slug,
+            placed.orderNumber,
+            placed.request.customerEmail ?? '',
+            callbackUrl,
+            placed.paymentKey
+        );
+        if (paymentRes.success && paymentRes.data) {
+            window.location.href = paymentRes.data.authorizationUrl;
+            return;
+        }
+        showAwaitingPayment(placed.orderNumber, paymentRes.message ?? "We couldn't open the payment page. Please try again.");
+    };
+
+    const handleRetryPayment = async () => {
+        const attempt = slug ? loadCheckoutAttempt(slug) : null;
+        if (!attempt || !isAwaitingPayment(attempt)) return;
+        try {
+            setSubmitting(true);
+            setPaymentError(null);
+            await startPayment(attempt);
+        } catch (err) {
+            console.error('Failed to start payment:', err);
+            setPaymentError("We couldn't open the payment page. Please try again.");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Refills the details form from a saved order, for the confirmation or to fix a refusal
+    const restoreCheckoutForm = (request: OrderRequest) => {
+        setValue('name', request.customerName ?? '');
+        setValue('phone', request.customerPhone ?? '');
+        setValue('email', request.customerEmail ?? '');
+        if (request.fulfillmentType) setValue('fulfillmentType', request.fulfillmentType);
+        setValue('address', request.customerAddress ?? '');
+        setValue('deliveryNotes', request.deliveryNotes ?? '');
+    };
+
+    // After a reload, or on coming back online: an order already placed is
+    // shown as placed rather than left in the cart to be placed again, and one
+    // sent just before the reload, or queued offline, is sent under its key.
+    // An order to be paid online is shown waiting for payment instead, until
+    // the payment callback confirms it was paid.
+    useEffect(() => {
+        if (!slug || searchParams.get('reference')) return;
+        const attempt = loadCheckoutAttempt(slug);
+        if (!attempt) return;
+        const alreadyPlaced = isPlaced(attempt) ? attempt : null;
+        if (!alreadyPlaced && (!online || !isInFlight(attempt))) return;
+
+        let cancelled = false;
+        const sent = alreadyPlaced
+            ? Promise.resolve(null)
+            : publicStoreApi.placeOrder(slug, attempt.request, attempt.idempotencyKey);
+        sent
+            .then((res) => {
+                if (cancelled) return;
+                restoreCheckoutForm(attempt.request);
+                const placed = res
+                    ? res.success && res.data ? recordOrderPlaced(slug, attempt, res.data.orderNumber) : null
+                    : alreadyPlaced;
+                if (placed) {
+                    if (isAwaitingPayment(placed)) showAwaitingPayment(placed.orderNumber);
+                    else showOrderPlaced(placed.orderNumber);
+                    setCartOpen(true);
+                    return;
+                }
+                if (!res) return;
+                if (isRetryable(res.error)) recordOrderFailed(slug, attempt);
+                else clearCheckoutAttempt(slug);
+                // The customer was told a queued order would be sent; say that it wasn't
+                if (attempt.queued) {
+                    setOrderQueued(false);
+                    showOrderFailure(res);
+                    setCheckoutStep('details');
+                    setCartOpen(true);
+                }
+            })
+            .catch((err) => {
+                console.error('Failed to recover order:', err);
+            });
+        return () => {
+            cancelled = true;
+        };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [slug, online]);
+
     // Checkout - called after form validation passes
     const handlePlaceOrder = async (formData: CheckoutFormData) => {
         if (!slug || !store) return;
 
+        // Stock may have moved while the customer filled in their details
+        if (cartExceedsStock) {
+            setCheckoutStep('cart');
+            return;
+        }
+        if (!detailsEligibility.eligible) return;
+
         try {
             setSubmitting(true);
+            setOrderError(null);
 
-            const orderRes = await publicStoreApi.placeOrder(slug, {
+            const request: OrderRequest = {
                 customerName: formData.name,
                 customerPhone: formData.phone,
                 customerEmail: formData.email,
-                customerAddress: formData.address,
-                deliveryNotes: formData.deliveryNotes,
-                fulfillmentType: formData.address ? FulfillmentType.DELIVERY : FulfillmentType.PICKUP,
-                items: cart.map((item) => ({
-                    productId: item.productId,
-                    quantity: item.quantity,
-                })),
-            });
+                customerAddress: formData.fulfillmentType === FulfillmentType.DELIVERY ? formData.address : undefined,
+                deliveryNotes: formData.fulfillmentType === FulfillmentType.DELIVERY ? formData.deliveryNotes : undefined,
+                fulfillmentType: formData.fulfillmentType,
+                deliveryZoneId: selectedZone?.id,
+                scheduledFor,
+                timeSlot: selectedTimeSlot ? { start: selectedTimeSlot.start, end: selectedTimeSlot.end } : undefined,
+                couponCode: couponDiscount?.code,
+                items: toOrderItems(cart),
+            };
+            const payOnline = selectedPaymentMethod === 'ONLINE' && !!formData.email && checkEligibility('payment').eligible;
+            // Saved before sending, so a reload mid-request can find out what became of it
+            const attempt = beginCheckoutAttempt(slug, request, { payOnline });
+            if (!online) {
+                queueOrder(attempt);
+                return;
+            }
+            const orderRes = await publicStoreApi.placeOrder(slug, request, attempt.idempotencyKey);
 
             if (orderRes.success && orderRes.data) {
-                setOrderNumber(orderRes.data.orderNumber);
-
-                // If online payment, redirect to Paystack
-                if (selectedPaymentMethod === 'ONLINE' && formData.email) {
-                    const callbackUrl = `${window.location.origin}/${slug}?order=${orderRes.data.orderNumber}`;
-                    const paymentRes = await publicStoreApi.initializePayment(
-                        slug,
-                        orderRes.data.orderNumber,
-                        formData.email,
-                        callbackUrl
-                    );
-
-                    if (paymentRes.success && paymentRes.data) {
-                        window.location.href = paymentRes.data.authorizationUrl;
-                        return;
-                    }
+                const placed = recordOrderPlaced(slug, attempt, orderRes.data.orderNumber);
+
+                // If online payment, redirect to Paystack; the order isn't done until that's verified
+                if (isAwaitingPayment(placed)) {
+                    await startPayment(placed);
+                    return;
                 }
 
                 // Otherwise show confirmation
-                setCheckoutStep('confirmation');
-                clearCart();
+                showOrderPlaced(orderRes.data.orderNumber);
+            } else if (orderRes.error?.kind === 'network' && !navigator.onLine) {
+                // The connection dropped while sending; the key makes sending it again safe
+                queueOrder(attempt);
+            } else {
+                // A refused order would be refused again under the same key; a
+                // failed one keeps it, so trying again can't place it twice
+                if (isRetryable(orderRes.error)) recordOrderFailed(slug, attempt);
+                else clearCheckoutAttempt(slug);
+                showOrderFailure(orderRes);
             }
         } catch (err) {
             console.error('Failed to place order:', err);
+            setOrderError("We couldn't place your order. Please try again.");
         } finally {
             setSubmitting(false);
         }
@@ -365,21 +990,7 @@ export function PublicStorefrontPage() {
 
                     {/* Skeleton product grid */}
                     <main className="storefront__products">
-                        <div className="storefront__grid">
-                            {Array.from({ length: 8 }).map((_, i) => (
-                                <Tile key={i} className="product-card product-card--skeleton">
-                                    <SkeletonPlaceholder className="product-card__skeleton-image" />
-                                    <div className="product-card__content">
-                                        <SkeletonText heading width="70%" />
-                                        <SkeletonText lineCount={2} width="100%" />
-                                    </div>
-                                    <div className="product-card__footer">
-                                        <SkeletonText width="60px" />
-                                        <SkeletonPlaceholder className="product-card__skeleton-button" />
-                                    </div>
-                                </Tile>
-                            ))}
-                        </div>
+                        <ProductGridSkeleton />
                     </main>
                 </div>
             </Theme>
@@ -387,7 +998,23 @@ export function PublicStorefrontPage() {
     }
 
     // Render error
-    if (error || !store) {
+    // Only a 404 means there is no such store; anything else is worth retrying
+    if (storeUnavailable && !isNotFound(storeResponse)) {
+        return (
+            <Theme theme="white">
+                <div className="storefront storefront--error">
+                    <WarningAlt size={64} />
+                    <h1>Couldn't Load Store</h1>
+                    <p>{storeResponse?.message ?? 'Something went wrong. Please try again.'}</p>
+                    <Button kind="primary" onClick={() => refetchStore()}>
+                        Try Again
+                    </Button>
+                </div>
+            </Theme>
+        );
+    }
+
+    if (!store) {
         return (
             <Theme theme="white">
                 <div className="storefront storefront--error">
@@ -413,517 +1040,1169 @@ export function PublicStorefrontPage() {
     }
 
     return (
-        <Theme theme="white">
-            <div className="storefront" style={{ '--store-primary': store.primaryColor } as React.CSSProperties}>
-                {/* Header */}
-                <header className="storefront__header">
-                    <div className="storefront__header-content">
-                        <div className="storefront__brand">
-                            {store.logoUrl && !logoError ? (
-                                <img
-                                    src={store.logoUrl}
-                                    alt={store.storeName}
-                                    className="storefront__logo"
-                                    onError={() => setLogoError(true)}
-                                />
-                            ) : (
-                                <div className="storefront__logo-placeholder">
-                                    {store.storeName.charAt(0).toUpperCase()}
+        <StoreCurrencyProvider currency={store.currency}>
+            <Theme theme="white">
+                <div className="storefront" style={{ '--store-primary': store.primaryColor } as React.CSSProperties}>
+                    {/* Header */}
+                    <header className="storefront__header">
+                        <div className="storefront__header-content">
+                            <div className="storefront__brand">
+                                {store.logoUrl && !logoError ? (
+                                    <img
+                                        src={store.logoUrl}
+                                        alt={store.storeName}
+                                        className="storefront__logo"
+                                        onError={() => setLogoError(true)}
+                                    />
+                                ) : (
+                                    <div className="storefront__logo-placeholder">
+                                        {store.storeName.charAt(0).toUpperCase()}
+                                    </div>
+                                )}
+                                <div className="storefront__brand-info">
+                                    <h1>{store.storeName}</h1>
+                                    {store.description && <p>{store.description}</p>}
                                 </div>
-                            )}
-                            <div className="storefront__brand-info">
-                                <h1>{store.storeName}</h1>
-                                {store.description && <p>{store.description}</p>}
                             </div>
+
+                            <Button
+                                kind="primary"
+                                className="storefront__cart-button"
+                                onClick={() => setCartOpen(true)}
+                                renderIcon={ShoppingCart}
+                            >
+                                Cart {cartItemCount > 0 && <Tag size="sm">{cartItemCount}</Tag>}
+                            </Button>
                         </div>
+                    </header>
 
-                        <Button
-                            kind="primary"
-                            className="storefront__cart-button"
-                            onClick={() => setCartOpen(true)}
-                            renderIcon={ShoppingCart}
-                        >
-                            Cart {cartItemCount > 0 && <Tag size="sm">{cartItemCount}</Tag>}
-                        </Button>
-                    </div>
-                </header>
-
-                {/* Business Hours */}
-                {store.businessHours && Object.keys(store.businessHours).length > 0 && (
-                    <div className="storefront__hours">
-                        <div className="storefront__hours-content">
-                            {(() => {
-                                const today = getCurrentDayName();
-                                const todayKey = today.toLowerCase();
-                                const todayHours = store.businessHours![todayKey] || store.businessHours![today];
-                                return (
-                                    <>
-                                        <div className="storefront__hours-today">
-                                            <Time size={16} />
-                                            {todayHours ? (
-                                                <span>
-                                                    <strong>Open today:</strong> {formatTime(todayHours.open)} &ndash; {formatTime(todayHours.close)}
-                                                </span>
-                                            ) : (
-                                                <span><strong>Closed today</strong></span>
-                                            )}
-                                        </div>
-                                        <button
-                                            className="storefront__hours-toggle"
-                                            onClick={() => setHoursExpanded(!hoursExpanded)}
-                                            type="button"
-                                            aria-expanded={hoursExpanded}
-                                        >
-                                            {hoursExpanded ? 'Hide schedule' : 'View full schedule'}
-                                            {hoursExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
-                                        </button>
-                                    </>
-                                );
-                            })()}
+                    {/* Connection */}
+                    {(!online || orderQueued) && (
+                        <div className="storefront__connection">
+                            <CloudOffline size={16} />
+                            <span>
+                                {orderQueued
+                                    ? online
+                                        ? 'Sending your order…'
+                                        : "You're offline. Your order will be sent when you're back online."
+                                    : "You're offline. Showing products saved from your last visit."}
+                            </span>
                         </div>
-                        {hoursExpanded && (
-                            <div className="storefront__hours-schedule">
-                                {DAY_NAMES.map((day) => {
-                                    const dayKey = day.toLowerCase();
-                                    const hours = store.businessHours![dayKey] || store.businessHours![day];
-                                    const isToday = day === getCurrentDayName();
-                                    return (
-                                        <div
-                                            key={day}
-                                            className={`storefront__hours-day ${isToday ? 'storefront__hours-day--today' : ''}`}
-                                        >
-                                            <span className="storefront__hours-day-name">{day}</span>
-                                            <span className="storefront__hours-day-time">
-                                                {hours ? `${formatTime(hours.open)} - ${formatTime(hours.close)}` : 'Closed'}
-                                            </span>
-                                        </div>
-                                    );
-                                })}
-                            </div>
-                        )}
-                    </div>
-                )}
+                    )}
 
-                {/* Not accepting orders banner */}
-                {!store.acceptOrders && (
-                    <InlineNotification
-                        kind="warning"
-                        title="Not accepting orders"
-                        subtitle="This store is not currently accepting new orders."
-                        hideCloseButton
-                        className="storefront__banner"
-                    />
-                )}
+                    {/* Business Hours */}
+                    {hasHours && (
+                        <div className="storefront__hours">
+                            <div className="storefront__hours-content">
+                                <div className="storefront__hours-today">
+                                    <Time size={16} />
+                                    <span>
+                                        <strong>{describeStoreStatus(storeStatus, storeToday)}</strong>
+                                        {weeklyHours[storeToday] && (
+                                            <>
+                                                {' '}&middot; Today {formatTime(weeklyHours[storeToday].open)} &ndash; {formatTime(weeklyHours[storeToday].close)}
+                                            </>
+                                        )}
+                                    </span>
+                                </div>
+                                <button
+                                    className="storefront__hours-toggle"
+                                    onClick={() => setHoursExpanded(!hoursExpanded)}
+                                    type="button"
+                                    aria-expanded={hoursExpanded}
+                                >
+                                    {hoursExpanded ? 'Hide schedule' : 'View full schedule'}
+                                    {hoursExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                </button>
+                            </div>
+                            {hoursExpanded && (
+                                <div className="storefront__hours-schedule">
+                                    {DAY_KEYS.map((day) => {
+                                        const hours = weeklyHours[day];
+                                        const isToday = day === storeToday;
+                                        return (
+                                            <div
+                                                key={day}
+                                                className={`storefront__hours-day ${isToday ? 'storefront__hours-day--today' : ''}`}
+                                            >
+                                                <span className="storefront__hours-day-name">{formatDayName(day)}</span>
+                                                <span className="storefront__hours-day-time">
+                                                    {hours ? `${formatTime(hours.open)} - ${formatTime(hours.close)}` : 'Closed'}
+                                                </span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    )}
 
-                {/* Search & Sort */}
-                <div className="storefront__search">
-                    <div className="storefront__search-row">
-                        <TextInput
-                            id="product-search"
-                            labelText=""
-                            placeholder="Search products..."
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className="storefront__search-input"
+                    {/* Not accepting orders banner */}
+                    {!addToCartEligibility.eligible && (
+                        <InlineNotification
+                            kind="warning"
+                            title="Not accepting orders"
+                            subtitle={addToCartEligibility.reasons[0]?.message}
+                            hideCloseButton
+                            className="storefront__banner"
                         />
-                        <Select
-                            id="product-sort"
-                            labelText=""
-                            hideLabel
-                            value={sortOption}
-                            onChange={(e) => setSortOption(e.target.value as SortOption)}
-                            className="storefront__sort-select"
-                        >
-                            <SelectItem value="default" text="Default" />
-                            <SelectItem value="price-asc" text="Price: Low to High" />
-                            <SelectItem value="price-desc" text="Price: High to Low" />
-                            <SelectItem value="newest" text="Newest First" />
-                            <SelectItem value="name-asc" text="Name: A to Z" />
-                        </Select>
-                    </div>
-                </div>
+                    )}
 
-                {/* Products Grid */}
-                <main className="storefront__products">
-                    {filteredProducts.length === 0 ? (
-                        <div className="storefront__empty">
-                            <p>No products found</p>
+                    {/* Search, filters & sort */}
+                    <div className="storefront__search">
+                        <div className="storefront__search-row">
+                            <TextInput
+                                id="product-search"
+                                labelText=""
+                                placeholder="Search products..."
+                                value={filterDraft.search}
+                                onChange={(e) => handleFilterDraftChange({ search: e.target.value })}
+                                className="storefront__search-input"
+                            />
+                            <Select
+                                id="product-sort"
+                                labelText=""
+                                hideLabel
+                                value={sort}
+                                onChange={(e) => updateProductFilters({ sort: e.target.value as ProductSort })}
+                                className="storefront__sort-select"
+                            >
+                                {PRODUCT_SORT_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value} text={option.label} />
+                                ))}
+                            </Select>
                         </div>
-                    ) : (
-                        <>
-                            <div className="storefront__grid">
-                                {filteredProducts.map((product) => (
-                                    <ProductCard
-                                        key={product.id}
-                                        product={product}
-                                        storeSlug={slug!}
-                                        onAddToCart={() => handleAddToCart(product)}
-                                        inCart={cart.some((item) => item.productId === product.id)}
-                                        disabled={!store.acceptOrders || product.outOfStock}
+                        {categoryFacets.length > 0 && (
+                            <nav className="storefront__categories" aria-label="Product categories">
+                                <CategoryChip
+                                    to={getCategoryPath(slug!, undefined, queryString)}
+                                    label="All"
+                                    count={totalProductCount}
+                                    active={!category}
+                                />
+                                {categoryFacets.map((facet) => (
+                                    <CategoryChip
+                                        key={facet.category}
+                                        to={getCategoryPath(slug!, facet.category, queryString)}
+                                        label={facet.displayName}
+                                        count={facet.count}
+                                        active={facet.category === category}
                                     />
                                 ))}
+                            </nav>
+                        )}
+                        <div className="storefront__filters">
+                            <TextInput
+                                id="product-min-price"
+                                labelText="Minimum price"
+                                hideLabel
+                                type="number"
+                                min={0}
+                                placeholder="Min price"
+                                value={filterDraft.minPrice}
+                                onChange={(e) => handleFilterDraftChange({ minPrice: e.target.value })}
+                                className="storefront__filter-price"
+                            />
+                            <TextInput
+                                id="product-max-price"
+                                labelText="Maximum price"
+                                hideLabel
+                                type="number"
+                                min={0}
+                                placeholder="Max price"
+                                value={filterDraft.maxPrice}
+                                onChange={(e) => handleFilterDraftChange({ maxPrice: e.target.value })}
+                                className="storefront__filter-price"
+                            />
+                            <Checkbox
+                                id="product-in-stock"
+                                labelText="In stock only"
+                                checked={inStock}
+                                onChange={(_, { checked }) => updateProductFilters({ inStock: checked })}
+                            />
+                            {hasActiveFilters(productFilters) && (
+                                <Button kind="ghost" size="sm" onClick={clearProductFilters}>
+                                    Clear filters
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Products Grid */}
+                    <main className="storefront__products" aria-busy={productsPending || productsStale}>
+                        {productsPending ? (
+                            <ProductGridSkeleton />
+                        ) : products.length === 0 && productsFailed ? (
+                            <div className="storefront__empty">
+                                <p>Couldn't load products</p>
+                                <Button kind="tertiary" size="sm" onClick={() => refetchProducts()}>
+                                    Try again
+                                </Button>
                             </div>
-                            {hasMore && !searchQuery && (
-                                <div className="storefront__load-more">
-                                    <Button
-                                        kind="tertiary"
-                                        onClick={handleLoadMore}
-                                        disabled={loadingMore}
-                                    >
-                                        {loadingMore ? 'Loading...' : 'Load More Products'}
+                        ) : products.length === 0 ? (
+                            <div className="storefront__empty">
+                                <p>{hasActiveFilters(productFilters) ? 'No products match your search' : 'No products found'}</p>
+                                {hasActiveFilters(productFilters) && (
+                                    <Button kind="tertiary" size="sm" onClick={clearProductFilters}>
+                                        Clear filters
                                     </Button>
-                                </div>
+                                )}
+                            </div>
+                        ) : (
+                            <>
+                                <VirtualGrid
+                                    items={products}
+                                    getKey={(product) => product.id}
+                                    renderItem={(product) => (
+                                        <ProductCard
+                                            product={product}
+                                            storeSlug={slug!}
+                                            onAddToCart={(variant) => handleAddToCart(product, variant)}
+                                            getAvailability={getAvailability}
+                                            promotions={store.promotions}
+                                            taxDisplayMode={taxDisplayMode}
+                                            disabled={!addToCartEligibility.eligible}
+                                        />
+                                    )}
+                                    getLayout={getProductGridLayout}
+                                    estimatedRowHeight={ESTIMATED_CARD_HEIGHT}
+                                    onEndReached={handleLoadMore}
+                                    className={productsStale ? 'storefront__grid--stale' : ''}
+                                />
+                                {hasNextPage && !productsStale && (
+                                    <div className="storefront__load-more" aria-live="polite">
+                                        {loadMoreFailed ? (
+                                            <Button kind="tertiary" onClick={handleLoadMore}>
+                                                Couldn't load more products. Try again
+                                            </Button>
+                                        ) : loadingMore && (
+                                            <InlineLoading description="Loading more products..." />
+                                        )}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </main>
+
+                    {/* Footer */}
+                    <footer className="storefront__footer">
+                        <div className="storefront__contact">
+                            {store.phone && (
+                                <a href={`tel:${store.phone}`}>
+                                    <Phone size={16} /> {store.phone}
+                                </a>
+                            )}
+                            {store.email && (
+                                <a href={`mailto:${store.email}`}>
+                                    <Email size={16} /> {store.email}
+                                </a>
                             )}
-                        </>
+                            {store.address && (
+                                <span>
+                                    <Location size={16} /> {store.address}
+                                </span>
+                            )}
+                        </div>
+                        <p className="storefront__powered">
+                            Powered by <strong>Accurify QuickStore</strong>
+                        </p>
+                    </footer>
+
+                    {/* Shared Cart Modal */}
+                    {sharedLines.length > 0 && (
+                        <SharedCartModal
+                            loading={sharedCartLoading}
+                            sharedCart={sharedCart}
+                            hasExistingCart={cart.length > 0}
+                            onImport={handleImportSharedCart}
+                            onClose={dismissSharedCart}
+                        />
                     )}
-                </main>
-
-                {/* Footer */}
-                <footer className="storefront__footer">
-                    <div className="storefront__contact">
-                        {store.phone && (
-                            <a href={`tel:${store.phone}`}>
-                                <Phone size={16} /> {store.phone}
-                            </a>
-                        )}
-                        {store.email && (
-                            <a href={`mailto:${store.email}`}>
-                                <Email size={16} /> {store.email}
-                            </a>
-                        )}
-                        {store.address && (
-                            <span>
-                                <Location size={16} /> {store.address}
-                            </span>
-                        )}
-                    </div>
-                    <p className="storefront__powered">
-                        Powered by <strong>Accurify QuickStore</strong>
-                    </p>
-                </footer>
-
-                {/* Cart Modal */}
-                <Modal
-                    open={cartOpen}
-                    onRequestClose={() => {
-                        if (checkoutStep === 'confirmation') {
-                            setCheckoutStep('cart');
-                            clearCart();
+
+                    {/* Cart Modal */}
+                    <Modal
+                        open={cartOpen}
+                        onRequestClose={() => {
+                            if (checkoutStep === 'confirmation') {
+                                setCheckoutStep('cart');
+                                clearCart();
+                            }
+                            // The cart stays until a queued order is sent. An unpaid order
+                            // keeps its step, so reopening the cart offers to pay again.
+                            if (checkoutStep === 'queued') setCheckoutStep('cart');
+                            setCartOpen(false);
+                        }}
+                        modalHeading={
+                            checkoutStep === 'cart'
+                                ? 'Your Cart'
+                                : checkoutStep === 'details'
+                                    ? 'Your Details'
+                                    : checkoutStep === 'confirmation'
+                                        ? 'Order Confirmed!'
+                                        : checkoutStep === 'queued'
+                                            ? 'Order Saved'
+                                            : 'Complete Payment'
                         }
-                        setCartOpen(false);
-                    }}
-                    modalHeading={
-                        checkoutStep === 'cart'
-                            ? 'Your Cart'
-                            : checkoutStep === 'details'
-                                ? 'Your Details'
-                                : checkoutStep === 'confirmation'
-                                    ? 'Order Confirmed!'
-                                    : 'Payment'
-                    }
-                    passiveModal={checkoutStep === 'confirmation'}
-                    primaryButtonText={
-                        checkoutStep === 'cart'
-                            ? 'Continue to Checkout'
-                            : checkoutStep === 'details'
-                                ? 'Place Order'
-                                : undefined
-                    }
-                    primaryButtonDisabled={
-                        (checkoutStep === 'cart' && cart.length === 0) ||
-                        (checkoutStep === 'details' && !selectedPaymentMethod) ||
-                        submitting
-                    }
-                    secondaryButtonText={checkoutStep === 'details' ? 'Back' : undefined}
-                    onRequestSubmit={
-                        checkoutStep === 'cart'
-                            ? () => setCheckoutStep('details')
-                            : checkoutStep === 'details'
-                                ? handleFormSubmit(handlePlaceOrder)
-                                : undefined
-                    }
-                    onSecondarySubmit={checkoutStep === 'details' ? () => setCheckoutStep('cart') : undefined}
-                    size="md"
-                >
-                    {checkoutStep === 'cart' && (
-                        <div className="cart">
-                            {cart.length === 0 ? (
-                                <p className="cart__empty">Your cart is empty</p>
-                            ) : (
-                                <>
-                                    <div className="cart__items">
-                                        {cart.map((item) => (
-                                            <div key={item.productId} className="cart__item">
-                                                <div className="cart__item-info">
-                                                    <span className="cart__item-name">{item.product.name}</span>
-                                                    <span className="cart__item-price">
-                                                        {formatCurrency(item.product.unitPrice)}
-                                                        {item.product.taxable && item.product.vatRate > 0 && (
-                                                            <span className="cart__item-vat"> +{item.product.vatRate}% VAT</span>
-                                                        )}
-                                                    </span>
-                                                </div>
-                                                <div className="cart__item-controls">
-                                                    <Button
-                                                        kind="ghost"
-                                                        size="sm"
-                                                        hasIconOnly
-                                                        renderIcon={Subtract}
-                                                        iconDescription="Decrease"
-                                                        onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                        passiveModal={checkoutStep === 'confirmation' || checkoutStep === 'queued'}
+                        primaryButtonText={
+                            checkoutStep === 'cart'
+                                ? 'Continue to Checkout'
+                                : checkoutStep === 'details'
+                                    ? online ? 'Place Order' : 'Send When Online'
+                                    : checkoutStep === 'payment'
+                                        ? submitting ? 'Opening payment...' : 'Pay Now'
+                                        : undefined
+                        }
+                        // Offline there is no quote to wait for; the server prices the order when it is sent
+                        primaryButtonDisabled={
+                            (checkoutStep === 'cart' &&
+                                ((online && !quote) || hasCartIssues || cartExceedsStock || !cartEligibility.eligible)) ||
+                            (checkoutStep === 'details' &&
+                                ((online && (!quote || quoteFetching)) || !detailsEligibility.eligible)) ||
+                            (checkoutStep === 'payment' && !online) ||
+                            submitting
+                        }
+                        secondaryButtonText={checkoutStep === 'details' ? 'Back' : undefined}
+                        onRequestSubmit={
+                            checkoutStep === 'cart'
+                                ? () => setCheckoutStep('details')
+                                : checkoutStep === 'details'
+                                    ? handleFormSubmit(handlePlaceOrder)
+                                    : checkoutStep === 'payment'
+                                        ? handleRetryPayment
+                                        : undefined
+                        }
+                        onSecondarySubmit={checkoutStep === 'details' ? () => setCheckoutStep('cart') : undefined}
+                        size="md"
+                    >
+                        {checkoutStep === 'cart' && (
+                            <div className="cart">
+                                {cart.length === 0 ? (
+                                    <p className="cart__empty">Your cart is empty</p>
+                                ) : (
+                                    <>
+                                        {hasCartIssues && (
+                                            <div className="cart__changes">
+                                                <InlineNotification
+                                                    kind="warning"
+                                                    title="Your cart has changed"
+                                                    subtitle="Some items changed price or stock since you added them. Accept the changes to continue."
+                                                    hideCloseButton
+                                                    lowContrast
+                                                />
+                                                <Button kind="secondary" size="sm" onClick={acceptCartChanges}>
+                                                    Accept changes
+                                                </Button>
+                                            </div>
+                                        )}
+                                        <div className="cart__items">
+                                            {cart.map((item) => {
+                                                const line = quoteLines.get(item.lineId);
+                                                const issues = cartIssues.filter(
+                                                    (issue) => issue.productId === item.productId && issue.variantId === item.variantId
+                                                );
+                                                const availability = getAvailability(item.product, item.variantId);
+                                                const vatNote = describeVat(item.product, taxDisplayMode);
+                                                return (
+                                                    <div key={item.lineId} className="cart__item">
+                                                        <div className="cart__item-info">
+                                                            <span className="cart__item-name">{item.product.name}</span>
+                                                            {item.variantLabel && (
+                                                                <span className="cart__item-variant">{item.variantLabel}</span>
+                                                            )}
+                                                            <span className="cart__item-price">
+                                                                {line
+                                                                    ? currency.format(toShelfPriceKobo(line.unitPriceKobo, getLineVatRate(item), taxDisplayMode, currency.code))
+                                                                    : currency.formatMajor(withShelfPrices(item.product, taxDisplayMode, currency.code).unitPrice)}
+                                                                {vatNote && <span className="cart__item-vat"> {vatNote}</span>}
+                                                            </span>
+                                                            {line?.promotion && line.discountKobo > 0 && (
+                                                                <span className="cart__item-promotion">
+                                                                    {line.promotion.label}: {line.promotion.explanation} (-{currency.format(line.discountKobo)})
+                                                                </span>
+                                                            )}
+                                                            {issues.length > 0
+                                                                ? issues.map((issue) => (
+                                                                    <span key={issue.kind} className="cart__item-warning">
+                                                                        <WarningAlt size={12} /> {issue.message}
+                                                                        {issue.kind === 'PRICE_CHANGED' && (
+                                                                            <> ({currency.formatMajor(issue.previousPrice!)} &rarr; {currency.formatMajor(issue.currentPrice!)})</>
+                                                                        )}
+                                                                    </span>
+                                                                ))
+                                                                : line?.warnings.map((warning) => (
+                                                                    <span key={warning.code} className="cart__item-warning">
+                                                                        <WarningAlt size={12} /> {warning.message}
+                                                                    </span>
+                                                                ))}
+                                                            {issues.length === 0 && !availability.canAdd && availability.reason && (
+                                                                <span className="cart__item-limit">{availability.reason}</span>
+                                                            )}
+                                                            <TextInput
+                                                                id={`cart-notes-${item.lineId}`}
+                                                                className="cart__item-notes"
+                                                                labelText="Notes"
+                                                                hideLabel
+                                                                size="sm"
+                                                                placeholder="Add a note (e.g. no onions)"
+                                                                maxLength={MAX_LINE_NOTES_LENGTH}
+                                                                defaultValue={item.notes ?? ''}
+                                                                onBlur={(e) => updateNotes(item.lineId, e.target.value)}
+                                                            />
+                                                        </div>
+                                                        <div className="cart__item-controls">
+                                                            <Button
+                                                                kind="ghost"
+                                                                size="sm"
+                                                                hasIconOnly
+                                                                renderIcon={Subtract}
+                                                                iconDescription="Decrease"
+                                                                onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
+                                                            />
+                                                            <span className="cart__item-qty">{item.quantity}</span>
+                                                            <Button
+                                                                kind="ghost"
+                                                                size="sm"
+                                                                hasIconOnly
+                                                                renderIcon={Add}
+                                                                iconDescription={availability.reason ?? 'Increase'}
+                                                                disabled={!availability.canAdd}
+                                                                onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                                                            />
+                                                            <Button
+                                                                kind="ghost"
+                                                                size="sm"
+                                                                hasIconOnly
+                                                                renderIcon={Close}
+                                                                iconDescription="Remove"
+                                                                onClick={() => removeFromCart(item.lineId)}
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                        <div className="cart__summary">
+                                            {!online && !quote ? (
+                                                <InlineNotification
+                                                    kind="info"
+                                                    title="You're offline"
+                                                    subtitle="You can still place your order. We'll send it, and confirm your total, when you're back online."
+                                                    hideCloseButton
+                                                    lowContrast
+                                                />
+                                            ) : quoteError && !quoteFetching ? (
+                                                <div className="cart__quote-error">
+                                                    <InlineNotification
+                                                        kind="error"
+                                                        title="Couldn't calculate your total"
+                                                        subtitle="Please check your connection and try again."
+                                                        hideCloseButton
+                                                        lowContrast
                                                     />
-                                                    <span className="cart__item-qty">{item.quantity}</span>
-                                                    <Button
-                                                        kind="ghost"
+                                                    <Button kind="ghost" size="sm" onClick={() => refetchQuote()}>
+                                                        Try again
+                                                    </Button>
+                                                </div>
+                                            ) : !quote ? (
+                                                <SkeletonText paragraph lineCount={3} />
+                                            ) : (
+                                                <QuoteSummary
+                                                    quote={quote}
+                                                    variant="cart"
+                                                    fulfillmentType={watchedFulfillment}
+                                                    deliveryZone={selectedZone}
+                                                    coupon={couponDiscount}
+                                                    vatSummary={vatSummary}
+                                                    taxDisplayMode={taxDisplayMode}
+                                                />
+                                            )}
+                                            <div className="cart__coupon">
+                                                {appliedCoupon ? (
+                                                    <>
+                                                        <div className="cart__coupon-applied">
+                                                            <Tag type="green" size="sm">{appliedCoupon.code}</Tag>
+                                                            <span className="cart__coupon-description">{describeCoupon(appliedCoupon, currency.code)}</span>
+                                                            <Button kind="ghost" size="sm" onClick={handleRemoveCoupon}>
+                                                                Remove
+                                                            </Button>
+                                                        </div>
+                                                        {quoteCoupon?.rejection && (
+                                                            <p className="cart__coupon-error">{quoteCoupon.rejection.message}</p>
+                                                        )}
+                                                    </>
+                                                ) : (
+                                                    <div className="cart__coupon-form">
+                                                        <TextInput
+                                                            id="coupon-code"
+                                                            labelText="Promo code"
+                                                            hideLabel
+                                                            size="sm"
+                                                            placeholder="Promo code"
+                                                            value={couponInput}
+                                                            invalid={!!couponError}
+                                                            invalidText={couponError ?? undefined}
+                                                            onChange={(e) => {
+                                                                setCouponInput(e.target.value);
+                                                                setCouponError(null);
+                                                            }}
+                                                            onKeyDown={(e) => {
+                                                                if (e.key === 'Enter') handleApplyCoupon();
+                                                            }}
+                                                        />
+                                                        <Button
+                                                            kind="secondary"
+                                                            size="sm"
+                                                            onClick={handleApplyCoupon}
+                                                            disabled={!couponInput.trim() || applyingCoupon}
+                                                        >
+                                                            {applyingCoupon ? 'Checking...' : 'Apply'}
+                                                        </Button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                            {quote && store.deliveryAvailable && !watchedFulfillment && (
+                                                <p className="cart__fulfillment-hint">
+                                                    Delivery fee, if any, is added when you choose delivery at checkout.
+                                                </p>
+                                            )}
+                                            {quoteHasWarnings && !hasCartIssues && (
+                                                <InlineNotification
+                                                    kind="warning"
+                                                    title="Some items have changed"
+                                                    subtitle="Prices or stock have been updated since you added them. Review your cart before checking out."
+                                                    hideCloseButton
+                                                    lowContrast
+                                                />
+                                            )}
+                                            {getBlockingReasons(cartEligibility).map((reason) => (
+                                                <InlineNotification
+                                                    key={reason.code}
+                                                    kind="warning"
+                                                    title={reason.message}
+                                                    hideCloseButton
+                                                    lowContrast
+                                                />
+                                            ))}
+                                            {!storeStatus.isOpen && storeStatus.opensAt && !booksTimeSlots && (
+                                                <Checkbox
+                                                    id="schedule-when-open"
+                                                    className="cart__schedule"
+                                                    labelText={`Schedule for when we open · ${formatOpening(storeStatus.opensAt, storeToday)}`}
+                                                    checked={scheduleWhenOpen}
+                                                    onChange={(_, { checked }) => setScheduleWhenOpen(checked)}
+                                                />
+                                            )}
+                                            <div className="cart__share">
+                                                <Button
+                                                    kind="ghost"
+                                                    size="sm"
+                                                    renderIcon={cartLinkCopied ? Checkmark : Share}
+                                                    onClick={handleShareCart}
+                                                >
+                                                    {cartLinkCopied ? 'Link copied!' : 'Share this cart'}
+                                                </Button>
+                                                {cartCopyFailed && slug && (
+                                                    <TextInput
+                                                        id="cart-share-url"
                                                         size="sm"
-                                                        hasIconOnly
-                                                        renderIcon={Add}
-                                                        iconDescription="Increase"
-                                                        onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                                                        labelText="Couldn't copy the link. Copy it from here instead:"
+                                                        value={buildCartShareUrl(window.location.origin, slug, cart)}
+                                                        readOnly
+                                                        onFocus={(e) => e.currentTarget.select()}
                                                     />
+                                                )}
+                                            </div>
+                                            {store.whatsappNumber && quote && (
+                                                <div className="cart__whatsapp">
                                                     <Button
-                                                        kind="ghost"
-                                                        size="sm"
-                                                        hasIconOnly
-                                                        renderIcon={Close}
-                                                        iconDescription="Remove"
-                                                        onClick={() => removeFromCart(item.productId)}
-                                                    />
+                                                        kind="tertiary"
+                                                        size="md"
+                                                        renderIcon={ChatLaunch}
+                                                        onClick={handleWhatsAppOrder}
+                                                        disabled={!whatsappEligibility.eligible}
+                                                        title={getBlockingReasons(whatsappEligibility)[0]?.message}
+                                                        className="cart__whatsapp-button"
+                                                    >
+                                                        Order via WhatsApp
+                                                    </Button>
                                                 </div>
-                                            </div>
-                                        ))}
-                                    </div>
-                                    <div className="cart__summary">
-                                        <div className="cart__line">
-                                            <span>Subtotal</span>
-                                            <span>{formatCurrency(cartSubtotal / 100)}</span>
+                                            )}
                                         </div>
-                                        {cartVat > 0 && (
-                                            <div className="cart__line cart__line--vat">
-                                                <span>VAT</span>
-                                                <span>{formatCurrency(cartVat / 100)}</span>
-                                            </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {checkoutStep === 'details' && (
+                            <Form className="checkout-form">
+                                <TextInput
+                                    id="customer-name"
+                                    labelText="Your Name *"
+                                    placeholder="John Doe"
+                                    invalid={!!errors.name}
+                                    invalidText={errors.name?.message}
+                                    {...register('name')}
+                                />
+                                <TextInput
+                                    id="customer-phone"
+                                    labelText="Phone Number *"
+                                    placeholder="08012345678"
+                                    invalid={!!errors.phone}
+                                    invalidText={errors.phone?.message}
+                                    {...register('phone')}
+                                />
+                                <TextInput
+                                    id="customer-email"
+                                    labelText="Email *"
+                                    placeholder="you@example.com"
+                                    type="email"
+                                    invalid={!!errors.email}
+                                    invalidText={errors.email?.message}
+                                    {...register('email')}
+                                />
+                                {!watchedEmail && (
+                                    <InlineNotification
+                                        kind="info"
+                                        title="Email required for order confirmation"
+                                        subtitle="We'll send your order receipt and updates to this email."
+                                        hideCloseButton
+                                        lowContrast
+                                        style={{ marginTop: '0.5rem', marginBottom: '1rem' }}
+                                    />
+                                )}
+                                <div className="checkout-form__fulfillment">
+                                    <h4>How would you like to get your order? *</h4>
+                                    <div className="fulfillment-options">
+                                        {store.pickupAvailable && (
+                                            <Button
+                                                kind={watchedFulfillment === FulfillmentType.PICKUP ? 'primary' : 'tertiary'}
+                                                size="sm"
+                                                onClick={() => setValue('fulfillmentType', FulfillmentType.PICKUP, { shouldValidate: true })}
+                                                renderIcon={StoreIcon}
+                                            >
+                                                Pickup
+                                            </Button>
                                         )}
-                                        <div className="cart__total">
-                                            <span>Total</span>
-                                            <strong>{formatCurrency(cartTotal / 100)}</strong>
-                                        </div>
-                                        {store.minimumOrderKobo > 0 && cartTotal < store.minimumOrderKobo && (
-                                            <InlineNotification
-                                                kind="warning"
-                                                title={`Minimum order: ${formatCurrency(store.minimumOrderKobo / 100)}`}
-                                                hideCloseButton
-                                                lowContrast
-                                            />
+                                        {store.deliveryAvailable && (
+                                            <Button
+                                                kind={isDelivery ? 'primary' : 'tertiary'}
+                                                size="sm"
+                                                onClick={() => setValue('fulfillmentType', FulfillmentType.DELIVERY, { shouldValidate: true })}
+                                                renderIcon={Delivery}
+                                            >
+                                                Delivery
+                                                {usesDeliveryZones
+                                                    ? ` (from ${currency.format(getLowestZoneFee(deliveryZones) ?? 0)})`
+                                                    : store.deliveryFeeKobo > 0 && ` (+${currency.format(store.deliveryFeeKobo)})`}
+                                            </Button>
                                         )}
-                                        {store.whatsappNumber && cart.length > 0 && (
-                                            <div className="cart__whatsapp">
-                                                <Button
-                                                    kind="tertiary"
-                                                    size="md"
-                                                    renderIcon={ChatLaunch}
-                                                    onClick={handleWhatsAppOrder}
-                                                    className="cart__whatsapp-button"
+                                    </div>
+                                    {errors.fulfillmentType && (
+                                        <p className="checkout-form__error">{errors.fulfillmentType.message}</p>
+                                    )}
+                                </div>
+                                {watchedFulfillment === FulfillmentType.PICKUP && (
+                                    <div className="checkout-form__pickup">
+                                        <h4>Pick up from</h4>
+                                        {store.address ? (
+                                            <p>
+                                                <Location size={16} />{' '}
+                                                {[store.address, store.city, store.state].filter(Boolean).join(', ')}
+                                            </p>
+                                        ) : (
+                                            <p>The store will share its pickup address when it confirms your order.</p>
+                                        )}
+                                        {hasHours && (
+                                            <ul className="checkout-form__pickup-hours">
+                                                {DAY_KEYS.map((day) => {
+                                                    const hours = weeklyHours[day];
+                                                    return (
+                                                        <li key={day}>
+                                                            <span>{formatDayName(day)}</span>
+                                                            <span>{hours ? `${formatTime(hours.open)} - ${formatTime(hours.close)}` : 'Closed'}</span>
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                                {isDelivery && (
+                                    <>
+                                        {usesDeliveryZones && (
+                                            <div className="checkout-form__zone">
+                                                <Select
+                                                    id="delivery-state"
+                                                    labelText="State *"
+                                                    value={deliveryState}
+                                                    onChange={(e) => {
+                                                        setDeliveryState(e.target.value);
+                                                        setDeliveryZoneId('');
+                                                    }}
                                                 >
-                                                    Order via WhatsApp
-                                                </Button>
+                                                    <SelectItem value="" text="Choose your state" disabled />
+                                                    {getZoneStates(deliveryZones).map((state) => (
+                                                        <SelectItem key={state} value={state} text={state} />
+                                                    ))}
+                                                    <SelectItem value={UNLISTED_ZONE} text="Another state" />
+                                                </Select>
+                                                {deliveryState && deliveryState !== UNLISTED_ZONE && (
+                                                    <Select
+                                                        id="delivery-zone"
+                                                        labelText="Area *"
+                                                        value={deliveryZoneId}
+                                                        onChange={(e) => setDeliveryZoneId(e.target.value)}
+                                                    >
+                                                        <SelectItem value="" text="Choose your area" disabled />
+                                                        {getZonesForState(deliveryZones, deliveryState).map((zone) => (
+                                                            <SelectItem
+                                                                key={zone.id}
+                                                                value={zone.id}
+                                                                text={`${zone.name} — ${currency.format(zone.feeKobo)}${zone.estimatedDelivery ? ` · ${zone.estimatedDelivery}` : ''}`}
+                                                            />
+                                                        ))}
+                                                        <SelectItem value={UNLISTED_ZONE} text="My area isn't listed" />
+                                                    </Select>
+                                                )}
+                                                {selectedZone && (
+                                                    <p className="checkout-form__zone-info">
+                                                        Covers {getZoneCoverage(selectedZone)}
+                                                        {selectedZone.estimatedDelivery && ` · Arrives ${selectedZone.estimatedDelivery.toLowerCase()}`}
+                                                    </p>
+                                                )}
                                             </div>
                                         )}
-                                    </div>
-                                </>
-                            )}
-                        </div>
-                    )}
+                                        <TextInput
+                                            id="customer-address"
+                                            labelText="Delivery Address *"
+                                            placeholder="Enter your delivery address"
+                                            invalid={!!errors.address}
+                                            invalidText={errors.address?.message}
+                                            {...register('address')}
+                                        />
+                                        <TextInput
+                                            id="delivery-notes"
+                                            labelText="Delivery Notes"
+                                            placeholder="Any special instructions"
+                                            invalid={!!errors.deliveryNotes}
+                                            invalidText={errors.deliveryNotes?.message}
+                                            {...register('deliveryNotes')}
+                                        />
+                                    </>
+                                )}
 
-                    {checkoutStep === 'details' && (
-                        <Form className="checkout-form">
-                            <TextInput
-                                id="customer-name"
-                                labelText="Your Name *"
-                                placeholder="John Doe"
-                                invalid={!!errors.name}
-                                invalidText={errors.name?.message}
-                                {...register('name')}
-                            />
-                            <TextInput
-                                id="customer-phone"
-                                labelText="Phone Number *"
-                                placeholder="08012345678"
-                                invalid={!!errors.phone}
-                                invalidText={errors.phone?.message}
-                                {...register('phone')}
-                            />
-                            <TextInput
-                                id="customer-email"
-                                labelText="Email *"
-                                placeholder="you@example.com"
-                                type="email"
-                                invalid={!!errors.email}
-                                invalidText={errors.email?.message}
-                                {...register('email')}
-                            />
-                            {!watchedEmail && (
-                                <InlineNotification
-                                    kind="info"
-                                    title="Email required for order confirmation"
-                                    subtitle="We'll send your order receipt and updates to this email."
-                                    hideCloseButton
-                                    lowContrast
-                                    style={{ marginTop: '0.5rem', marginBottom: '1rem' }}
-                                />
-                            )}
-                            {store.deliveryAvailable && (
-                                <>
-                                    <TextInput
-                                        id="customer-address"
-                                        labelText="Delivery Address"
-                                        placeholder="Enter your delivery address"
-                                        invalid={!!errors.address}
-                                        invalidText={errors.address?.message}
-                                        {...register('address')}
-                                    />
-                                    <TextInput
-                                        id="delivery-notes"
-                                        labelText="Delivery Notes"
-                                        placeholder="Any special instructions"
-                                        invalid={!!errors.deliveryNotes}
-                                        invalidText={errors.deliveryNotes?.message}
-                                        {...register('deliveryNotes')}
-                                    />
-                                </>
-                            )}
+                                {booksTimeSlots && watchedFulfillment && (
+                                    <div className="checkout-form__slots">
+                                        <h4>{isDelivery ? 'Delivery time' : 'Pickup time'} *</h4>
+                                        {timeSlotDays.length === 0 ? (
+                                            <p className="checkout-form__zone-info">No times are left to book right now. Please check back later.</p>
+                                        ) : (
+                                            <>
+                                                <Select
+                                                    id="time-slot-day"
+                                                    labelText="Day"
+                                                    size="sm"
+                                                    value={String(activeSlotDay.dayOffset)}
+                                                    onChange={(e) => setTimeSlotDay(Number(e.target.value))}
+                                                >
+                                                    {timeSlotDays.map((day) => (
+                                                        <SelectItem key={day.dayOffset} value={String(day.dayOffset)} text={day.label} />
+                                                    ))}
+                                                </Select>
+                                                <div className="time-slots">
+                                                    {activeSlotDay.slots.map((slot) => (
+                                                        <Button
+                                                            key={slot.start}
+                                                            kind={slot.start === timeSlotStart ? 'primary' : 'tertiary'}
+                                                            size="sm"
+                                                            disabled={!slot.available}
+                                                            onClick={() => setTimeSlotStart(slot.start)}
+                                                        >
+                                                            {slot.label}
+                                                            {slot.unavailableReason === 'FULL' && ' · Full'}
+                                                            {slot.available && slot.remaining !== undefined && slot.remaining <= 2 && ` · ${slot.remaining} left`}
+                                                        </Button>
+                                                    ))}
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
 
-                            <div className="checkout-form__payment-methods">
-                                <h4>Select Payment Method *</h4>
-                                <div className="payment-methods">
-                                    {store.acceptOnlinePayment && (
-                                        <Button
-                                            kind={selectedPaymentMethod === 'ONLINE' ? 'primary' : 'tertiary'}
-                                            size="sm"
-                                            onClick={() => setSelectedPaymentMethod('ONLINE')}
-                                            renderIcon={Wallet}
-                                        >
-                                            Pay Online (Accurify Pay)
-                                        </Button>
+                                <div className="checkout-form__payment-methods">
+                                    <h4>Select Payment Method *</h4>
+                                    <div className="payment-methods">
+                                        {store.acceptOnlinePayment && (
+                                            <Button
+                                                kind={selectedPaymentMethod === 'ONLINE' ? 'primary' : 'tertiary'}
+                                                size="sm"
+                                                onClick={() => setSelectedPaymentMethod('ONLINE')}
+                                                renderIcon={Wallet}
+                                            >
+                                                Pay Online (Accurify Pay)
+                                            </Button>
+                                        )}
+                                        {store.acceptBankTransfer && (
+                                            <Button
+                                                kind={selectedPaymentMethod === 'BANK_TRANSFER' ? 'primary' : 'tertiary'}
+                                                size="sm"
+                                                onClick={() => setSelectedPaymentMethod('BANK_TRANSFER')}
+                                            >
+                                                Bank Transfer
+                                            </Button>
+                                        )}
+                                        {store.acceptCash && (
+                                            <Button
+                                                kind={selectedPaymentMethod === 'CASH' ? 'primary' : 'tertiary'}
+                                                size="sm"
+                                                onClick={() => setSelectedPaymentMethod('CASH')}
+                                            >
+                                                Cash on {isDelivery ? 'Delivery' : 'Pickup'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                    {selectedPaymentMethod === 'ONLINE' && (
+                                        <InlineNotification
+                                            kind="info"
+                                            title="Secure Payment"
+                                            subtitle="Pay instantly with card, bank transfer, or USSD via Paystack."
+                                            hideCloseButton
+                                            lowContrast
+                                            className="checkout-form__payment-notice"
+                                        />
                                     )}
-                                    {store.acceptBankTransfer && (
-                                        <Button
-                                            kind={selectedPaymentMethod === 'BANK_TRANSFER' ? 'primary' : 'tertiary'}
-                                            size="sm"
-                                            onClick={() => setSelectedPaymentMethod('BANK_TRANSFER')}
-                                        >
-                                            Bank Transfer
-                                        </Button>
+                                    {selectedPaymentMethod === 'BANK_TRANSFER' && (
+                                        <InlineNotification
+                                            kind="info"
+                                            title="Bank Transfer"
+                                            subtitle="You'll receive bank details and order receipt via email after placing your order."
+                                            hideCloseButton
+                                            lowContrast
+                                            className="checkout-form__payment-notice"
+                                        />
                                     )}
-                                    {store.acceptCash && (
-                                        <Button
-                                            kind={selectedPaymentMethod === 'CASH' ? 'primary' : 'tertiary'}
-                                            size="sm"
-                                            onClick={() => setSelectedPaymentMethod('CASH')}
-                                        >
-                                            Cash on {watchedAddress ? 'Delivery' : 'Pickup'}
-                                        </Button>
+                                    {selectedPaymentMethod === 'CASH' && (
+                                        <InlineNotification
+                                            kind="info"
+                                            title={`Cash on ${isDelivery ? 'Delivery' : 'Pickup'}`}
+                                            subtitle="Order confirmation and receipt will be sent to your email."
+                                            hideCloseButton
+                                            lowContrast
+                                            className="checkout-form__payment-notice"
+                                        />
                                     )}
                                 </div>
-                                {selectedPaymentMethod === 'ONLINE' && (
+
+                                {orderError && (
                                     <InlineNotification
-                                        kind="info"
-                                        title="Secure Payment"
-                                        subtitle="Pay instantly with card, bank transfer, or USSD via Paystack."
+                                        kind="error"
+                                        title="Couldn't place your order"
+                                        subtitle={orderError}
                                         hideCloseButton
                                         lowContrast
-                                        className="checkout-form__payment-notice"
                                     />
                                 )}
-                                {selectedPaymentMethod === 'BANK_TRANSFER' && (
+                                {getBlockingReasons(detailsEligibility).map((reason) => (
                                     <InlineNotification
-                                        kind="info"
-                                        title="Bank Transfer"
-                                        subtitle="You'll receive bank details and order receipt via email after placing your order."
+                                        key={reason.code}
+                                        kind="warning"
+                                        title={reason.message}
                                         hideCloseButton
                                         lowContrast
-                                        className="checkout-form__payment-notice"
                                     />
+                                ))}
+                                {scheduledFor && (
+                                    <p className="checkout-form__schedule">
+                                        <Time size={16} /> Scheduled for {formatScheduledTime(scheduledFor, storeTimeZone)}
+                                    </p>
                                 )}
-                                {selectedPaymentMethod === 'CASH' && (
+
+                                <div className="checkout-form__summary">
+                                    {quote ? (
+                                        <QuoteSummary
+                                            quote={quote}
+                                            variant="checkout"
+                                            fulfillmentType={watchedFulfillment}
+                                            deliveryZone={selectedZone}
+                                            coupon={couponDiscount}
+                                            vatSummary={vatSummary}
+                                            taxDisplayMode={taxDisplayMode}
+                                        />
+                                    ) : (
+                                        <SkeletonText paragraph lineCount={3} />
+                                    )}
+                                    {selectedPaymentMethod === 'ONLINE' && (
+                                        <div className="checkout-form__processing-fee">
+                                            <span>Processing fee ({store.platformFeePercentage || 3}%)</span>
+                                            <span>Included in total</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </Form>
+                        )}
+
+                        {checkoutStep === 'queued' && (
+                            <div className="order-confirmation">
+                                <div className="order-confirmation__icon">
+                                    <CloudOffline size={48} />
+                                </div>
+                                <h2>We'll send your order when you're back online</h2>
+                                <p>
+                                    Your order is saved on this device. Keep this page open or come back to it once
+                                    you have a connection, and it will go to {store.storeName} straight away.
+                                </p>
+                                <p>
+                                    We'll confirm your total and order number then, and {store.storeName} will
+                                    contact you at <strong>{getValues('phone')}</strong>.
+                                </p>
+                            </div>
+                        )}
+
+                        {checkoutStep === 'payment' && orderNumber && (
+                            <div className="order-confirmation">
+                                <div className="order-confirmation__icon">
+                                    <Wallet size={48} />
+                                </div>
+                                <h2>Your order is waiting for payment</h2>
+                                <p>Your order number is:</p>
+                                <div className="order-confirmation__number">{orderNumber}</div>
+                                <p>
+                                    {store.storeName} will start on it once your payment goes through. Your cart is
+                                    kept until then.
+                                </p>
+                                {paymentError && (
                                     <InlineNotification
-                                        kind="info"
-                                        title={`Cash on ${watchedAddress ? 'Delivery' : 'Pickup'}`}
-                                        subtitle="Order confirmation and receipt will be sent to your email."
+                                        kind="error"
+                                        title="Not paid yet"
+                                        subtitle={paymentError}
                                         hideCloseButton
                                         lowContrast
-                                        className="checkout-form__payment-notice"
                                     />
                                 )}
+                                <Link to={`/${slug}/orders/${orderNumber}`} className="order-confirmation__track-link">
+                                    <Button kind="ghost" renderIcon={ArrowRight}>
+                                        Track Your Order
+                                    </Button>
+                                </Link>
                             </div>
+                        )}
 
-                            <div className="checkout-form__summary">
-                                <div className="checkout-form__line">
-                                    <span>Subtotal</span>
-                                    <span>{formatCurrency(cartSubtotal / 100)}</span>
+                        {checkoutStep === 'confirmation' && orderNumber && (
+                            <div className="order-confirmation">
+                                <div className="order-confirmation__icon">
+                                    <ShoppingCart size={48} />
                                 </div>
-                                {cartVat > 0 && (
-                                    <div className="checkout-form__line">
-                                        <span>VAT</span>
-                                        <span>{formatCurrency(cartVat / 100)}</span>
-                                    </div>
-                                )}
-                                {watchedAddress && store.deliveryFeeKobo > 0 && (
-                                    <div className="checkout-form__line">
-                                        <span>Delivery Fee</span>
-                                        <span>{formatCurrency(store.deliveryFeeKobo / 100)}</span>
-                                    </div>
+                                <h2>Thank you for your order!</h2>
+                                <p>Your order number is:</p>
+                                <div className="order-confirmation__number">{orderNumber}</div>
+                                <p>
+                                    We'll contact you at <strong>{getValues('phone')}</strong> to confirm your order.
+                                </p>
+                                {getValues('email') && (
+                                    <p>
+                                        Order receipt has been sent to <strong>{getValues('email')}</strong>
+                                    </p>
                                 )}
-                                <div className="checkout-form__line checkout-form__line--total">
-                                    <span>Total</span>
-                                    <strong>
-                                        {formatCurrency(
-                                            (cartTotal + (watchedAddress ? store.deliveryFeeKobo : 0)) / 100
-                                        )}
-                                    </strong>
-                                </div>
-                                {selectedPaymentMethod === 'ONLINE' && (
-                                    <div className="checkout-form__processing-fee">
-                                        <span>Processing fee ({store.platformFeePercentage || 3}%)</span>
-                                        <span>Included in total</span>
-                                    </div>
+                                {store.phone && (
+                                    <p>
+                                        Questions? Call us at{' '}
+                                        <a href={`tel:${store.phone}`}>{store.phone}</a>
+                                    </p>
                                 )}
+                                <Link to={`/${slug}/orders/${orderNumber}`} className="order-confirmation__track-link">
+                                    <Button kind="primary" renderIcon={ArrowRight}>
+                                        Track Your Order
+                                    </Button>
+                                </Link>
                             </div>
-                        </Form>
-                    )}
+                        )}
+                    </Modal>
+                </div>
+            </Theme>
+        </StoreCurrencyProvider>
+    );
+}
 
-                    {checkoutStep === 'confirmation' && orderNumber && (
-                        <div className="order-confirmation">
-                            <div className="order-confirmation__icon">
-                                <ShoppingCart size={48} />
-                            </div>
-                            <h2>Thank you for your order!</h2>
-                            <p>Your order number is:</p>
-                            <div className="order-confirmation__number">{orderNumber}</div>
-                            <p>
-                                We'll contact you at <strong>{getValues('phone')}</strong> to confirm your order.
-                            </p>
-                            {getValues('email') && (
-                                <p>
-                                    Order receipt has been sent to <strong>{getValues('email')}</strong>
-                                </p>
-                            )}
-                            {store.phone && (
-                                <p>
-                                    Questions? Call us at{' '}
-                                    <a href={`tel:${store.phone}`}>{store.phone}</a>
-                                </p>
-                            )}
-                            <Link to={`/${slug}/orders/${orderNumber}`} className="order-confirmation__track-link">
-                                <Button kind="primary" renderIcon={ArrowRight}>
-                                    Track Your Order
-                                </Button>
-                            </Link>
-                        </div>
+// Shared Cart Modal — offered when a visitor opens a ?cart= link
+interface SharedCartModalProps {
+    loading: boolean;
+    sharedCart?: ResolvedSharedCart;
+    hasExistingCart: boolean;
+    onImport: (mode: 'replace' | 'merge') => void;
+    onClose: () => void;
+}
+
+function SharedCartModal({ loading, sharedCart, hasExistingCart, onImport, onClose }: SharedCartModalProps) {
+    const currency = useStoreCurrency();
+    const importable = !!sharedCart && sharedCart.items.length > 0;
+
+    return (
+        <Modal
+            open
+            modalHeading="A cart was shared with you"
+            primaryButtonText={hasExistingCart ? 'Add to my cart' : 'Add to cart'}
+            primaryButtonDisabled={loading || !importable}
+            secondaryButtonText={hasExistingCart && importable ? 'Replace my cart' : 'Cancel'}
+            onRequestSubmit={() => onImport('merge')}
+            onSecondarySubmit={hasExistingCart && importable ? () => onImport('replace') : onClose}
+            onRequestClose={onClose}
+            size="sm"
+        >
+            {loading || !sharedCart ? (
+                <SkeletonText paragraph lineCount={4} />
+            ) : (
+                <div className="shared-cart">
+                    {sharedCart.items.length > 0 ? (
+                        <ul className="shared-cart__items">
+                            {sharedCart.items.map((item) => (
+                                <li key={getStockKey(item.productId, item.variantId)} className="shared-cart__item">
+                                    <span>
+                                        {item.product.name}
+                                        {item.variantLabel && ` (${item.variantLabel})`}
+                                    </span>
+                                    <span>
+                                        x{item.quantity} &middot; {currency.formatMajor(item.product.unitPrice)}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="shared-cart__empty">None of the items in this link can be ordered right now.</p>
+                    )}
+                    {sharedCart.problems.length > 0 && (
+                        <InlineNotification
+                            kind="warning"
+                            title="Some items couldn't be added"
+                            subtitle={sharedCart.problems
+                                .map((problem) => `${problem.productName ?? 'An item'}: ${problem.reason}`)
+                                .join('. ')}
+                            hideCloseButton
+                            lowContrast
+                        />
                     )}
-                </Modal>
+                </div>
+            )}
+        </Modal>
+    );
+}
+
+// Quote Summary Component — renders totals exactly as priced by the server
+interface QuoteSummaryProps {
+    quote: CartQuote;
+    variant: 'cart' | 'checkout';
+    fulfillmentType?: FulfillmentType;
+    deliveryZone?: DeliveryZone;
+    coupon?: { code: string; discountKobo: number };
+    vatSummary: VatSummaryRow[];
+    taxDisplayMode: TaxDisplayMode;
+}
+
+function QuoteSummary({
+    quote,
+    variant,
+    fulfillmentType,
+    deliveryZone,
+    coupon,
+    vatSummary,
+    taxDisplayMode,
+}: QuoteSummaryProps) {
+    const currency = useStoreCurrency();
+    const lineClass = variant === 'cart' ? 'cart__line' : 'checkout-form__line';
+    const vatClass = `${lineClass} ${variant === 'cart' ? 'cart__line--vat' : ''}`;
+    const inclusive = taxDisplayMode === TaxDisplayMode.INCLUSIVE;
+    const { deliveryFeeKobo, totalKobo, subtotalWithVatKobo } = getQuoteTotals(quote, fulfillmentType);
+
+    return (
+        <>
+            <div className={lineClass}>
+                <span>{inclusive && quote.taxKobo > 0 ? 'Subtotal (incl. VAT)' : 'Subtotal'}</span>
+                <span>{currency.format(inclusive ? subtotalWithVatKobo : quote.subtotalKobo)}</span>
             </div>
-        </Theme>
+            {!inclusive && vatSummary.map((row) => (
+                <div key={row.label} className={vatClass}>
+                    <span>{row.label}</span>
+                    <span>{currency.format(row.taxKobo)}</span>
+                </div>
+            ))}
+            {quote.discountKobo > 0 && (
+                <div className={`${lineClass} ${variant === 'cart' ? 'cart__line--discount' : ''}`}>
+                    <span>Promotions</span>
+                    <span>-{currency.format(quote.discountKobo)}</span>
+                </div>
+            )}
+            {deliveryFeeKobo > 0 && (
+                <div className={lineClass}>
+                    <span>Delivery Fee{deliveryZone && ` (${deliveryZone.name})`}</span>
+                    <span>{currency.format(deliveryFeeKobo)}</span>
+                </div>
+            )}
+            {coupon && (
+                <div className={`${lineClass} ${variant === 'cart' ? 'cart__line--discount' : ''}`}>
+                    <span>Promo ({coupon.code})</span>
+                    <span>-{currency.format(coupon.discountKobo)}</span>
+                </div>
+            )}
+            {variant === 'cart' ? (
+                <div className="cart__total">
+                    <span>Total</span>
+                    <strong>{currency.format(totalKobo)}</strong>
+                </div>
+            ) : (
+                <div className="checkout-form__line checkout-form__line--total">
+                    <span>Total</span>
+                    <strong>{currency.format(totalKobo)}</strong>
+                </div>
+            )}
+            {inclusive && vatSummary.map((row) => (
+                <div key={row.label} className={vatClass}>
+                    <span>Includes {row.label}</span>
+                    <span>{currency.format(row.taxKobo)}</span>
+                </div>
+            ))}
+        </>
+    );
+}
+
+// Placeholder cards while the first page of products loads
+function ProductGridSkeleton() {
+    return (
+        <div className="storefront__grid">
+            {Array.from({ length: 8 }).map((_, i) => (
+                <Tile key={i} className="product-card product-card--skeleton">
+                    <SkeletonPlaceholder className="product-card__skeleton-image" />
+                    <div className="product-card__content">
+                        <SkeletonText heading width="70%" />
+                        <SkeletonText lineCount={2} width="100%" />
+                    </div>
+                    <div className="product-card__footer">
+                        <SkeletonText width="60px" />
+                        <SkeletonPlaceholder className="product-card__skeleton-button" />
+                    </div>
+                </Tile>
+            ))}
+        </div>
+    );
+}
+
+// One stop on the category rail
+interface CategoryChipProps {
+    to: string;
+    label: string;
+    count?: number;
+    active: boolean;
+}
+
+function CategoryChip({ to, label, count, active }: CategoryChipProps) {
+    return (
+        <Link
+            to={to}
+            className={`storefront__category-chip ${active ? 'storefront__category-chip--active' : ''}`}
+            aria-current={active ? 'page' : undefined}
+        >
+            {label}
+            {count !== undefined && <span className="storefront__category-count">{count}</span>}
+        </Link>
     );
 }
 
@@ -931,21 +2210,48 @@ export function PublicStorefrontPage() {
 interface ProductCardProps {
     product: Product;
     storeSlug: string;
-    onAddToCart: () => void;
-    inCart: boolean;
+    onAddToCart: (variant?: ProductVariant) => void;
+    getAvailability: (product: CartProduct, variantId?: string) => CartLineAvailability;
+    promotions?: Promotion[];
+    taxDisplayMode: TaxDisplayMode;
     disabled: boolean;
 }
 
-function ProductCard({ product, storeSlug, onAddToCart, inCart, disabled }: ProductCardProps) {
+function ProductCard({ product, storeSlug, onAddToCart, getAvailability, promotions, taxDisplayMode, disabled }: ProductCardProps) {
+    const currency = useStoreCurrency();
+    const [selection, setSelection] = useState(() => getDefaultSelection(product));
+    const withVariants = hasVariants(product);
+    const variant = withVariants ? findVariant(product, selection) : undefined;
+    // Price, image and stock follow the chosen variant
+    const shown = variant ? applyVariant(product, variant) : product;
+    const availability = getAvailability(shown, variant?.id);
+    const inCart = availability.quantityInCart > 0;
+    const displayPrice = getDisplayPrice(withShelfPrices(shown, taxDisplayMode, currency.code), new Date(), currency.code);
+    const vatNote = describeVat(product, taxDisplayMode);
+    const activePromotions = getActivePromotions(promotions, product.id);
+
     // Use slug if available, otherwise fallback to product ID for legacy products
     const productIdentifier = product.slug || product.id;
     const productDetailUrl = `/${storeSlug}/products/${productIdentifier}`;
+    const prefetchProduct = usePrefetchProduct(storeSlug);
+
+    const buttonLabel = withVariants && !variant
+        ? 'Unavailable'
+        : availability.maxQuantity === 0
+            ? 'Sold Out'
+            : !availability.canAdd ? 'Max in Cart' : inCart ? 'Add More' : 'Add';
 
     return (
         <Tile className="product-card">
-            <Link to={productDetailUrl} className="product-card__link">
-                {product.imageUrl ? (
-                    <img src={product.imageUrl} alt={product.name} className="product-card__image" />
+            <Link
+                to={productDetailUrl}
+                className="product-card__link"
+                onMouseEnter={() => prefetchProduct(productIdentifier)}
+                onTouchStart={() => prefetchProduct(productIdentifier)}
+                onFocus={() => prefetchProduct(productIdentifier)}
+            >
+                {shown.imageUrl ? (
+                    <LazyImage key={shown.imageUrl} src={shown.imageUrl} alt={product.name} className="product-card__image" />
                 ) : (
                     <div className="product-card__image-placeholder">
                         <StoreIcon size={32} />
@@ -958,14 +2264,30 @@ function ProductCard({ product, storeSlug, onAddToCart, inCart, disabled }: Prod
                     )}
                 </div>
             </Link>
+            {withVariants && (
+                <div className="product-card__variants">
+                    <VariantPicker product={product} selection={selection} onChange={setSelection} size="sm" />
+                </div>
+            )}
             <div className="product-card__footer">
                 <div className="product-card__price-info">
-                    <span className="product-card__price">{formatCurrency(product.unitPrice)}</span>
-                    {product.taxable && product.vatRate > 0 && (
-                        <span className="product-card__vat">+{product.vatRate}% VAT</span>
+                    <span className="product-card__price">{currency.formatMajor(displayPrice.price)}</span>
+                    {displayPrice.compareAt !== undefined && (
+                        <s className="product-card__compare-at">{currency.formatMajor(displayPrice.compareAt)}</s>
+                    )}
+                    {vatNote && <span className="product-card__vat">{vatNote}</span>}
+                    {(displayPrice.saving || activePromotions.length > 0) && (
+                        <div className="product-card__promotions">
+                            {displayPrice.saving && (
+                                <Tag type="red" size="sm">Save {currency.formatMajor(displayPrice.saving)}</Tag>
+                            )}
+                            {activePromotions.map((promotion) => (
+                                <Tag key={promotion.id} type="purple" size="sm">{describePromotion(promotion, currency.code)}</Tag>
+                            ))}
+                        </div>
                     )}
                 </div>
-                {product.outOfStock ? (
+                {!withVariants && availability.maxQuantity === 0 ? (
                     <Tag type="red" size="sm">Out of Stock</Tag>
                 ) : (
                     <Button
@@ -973,13 +2295,14 @@ function ProductCard({ product, storeSlug, onAddToCart, inCart, disabled }: Prod
                         size="sm"
                         onClick={(e) => {
                             e.preventDefault();
-                            onAddToCart();
+                            onAddToCart(variant);
                         }}
-                        disabled={disabled}
+                        disabled={disabled || (withVariants && !variant) || !availability.canAdd}
+                        title={availability.canAdd ? undefined : availability.reason}
                         renderIcon={Add}
                         type="button"
                     >
-                        {inCart ? 'Add More' : 'Add'}
+                        {buttonLabel}
                     </Button>
                 )}
             </div>
@@ -2,7 +2,7 @@
  * Store Directory Page - Lists all active stores on the platform.
  * Landing page for the storefront application.
  */
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
     Theme,
@@ -21,57 +21,47 @@ import {
     Location,
     ArrowRight,
 } from '@carbon/icons-react';
-import { publicStoreApi } from '@/services/api/public-store.api';
+import { usePrefetchStore, useStoreDirectory } from '@/services/api/public-store.queries';
 import type { Store } from '@/types/store.types';
 import { StoreCategory, StoreCategoryLabels } from '@/types/store.types';
+import { formatMoney } from '@/utils/currency';
 import './StoreDirectoryPage.scss';
 
+// "Delivery GH₵20 · Min. order GH₵50", in the store's own currency
+function getStoreTerms(store: Store): string {
+    const terms: string[] = [];
+    if (store.deliveryAvailable && store.deliveryFeeKobo > 0) {
+        terms.push(`Delivery ${formatMoney(store.deliveryFeeKobo, store.currency)}`);
+    }
+    if (store.minimumOrderKobo > 0) {
+        terms.push(`Min. order ${formatMoney(store.minimumOrderKobo, store.currency)}`);
+    }
+    return terms.join(' · ');
+}
+
 export function StoreDirectoryPage() {
     const navigate = useNavigate();
 
     // State
-    const [stores, setStores] = useState<Store[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedCategory, setSelectedCategory] = useState<StoreCategory | null>(null);
     const [page, setPage] = useState(0);
     const [pageSize, setPageSize] = useState(12);
-    const [totalItems, setTotalItems] = useState(0);
 
     // All available categories
     const categories = Object.values(StoreCategory);
 
-    // Load stores
-    useEffect(() => {
-        async function loadStores() {
-            try {
-                setLoading(true);
-                setError(null);
-
-                const response = await publicStoreApi.listStores(
-                    page,
-                    pageSize,
-                    searchQuery || undefined,
-                    selectedCategory || undefined
-                );
-
-                if (response.success && response.data) {
-                    setStores(response.data.content);
-                    setTotalItems(response.data.totalElements);
-                } else {
-                    setError('Failed to load stores');
-                }
-            } catch (err) {
-                console.error('Failed to load stores:', err);
-                setError('Failed to load stores. Please try again.');
-            } finally {
-                setLoading(false);
-            }
-        }
-
-        loadStores();
-    }, [page, pageSize, searchQuery, selectedCategory]);
+    // Load stores; the previous page stays on screen while the next one loads
+    const { data: response, isLoading: loading, isError, refetch } = useStoreDirectory({
+        page,
+        size: pageSize,
+        search: searchQuery,
+        category: selectedCategory || undefined,
+    });
+    const stores = response?.success && response.data ? response.data.content : [];
+    const totalItems = response?.data?.totalElements ?? 0;
+    const error = isError || (response && !response.success) ? 'Failed to load stores. Please try again.' : null;
+    const prefetchStore = usePrefetchStore();
 
     // Handle search with debounce
     const handleSearchChange = (value: string) => {
@@ -206,7 +196,7 @@ export function StoreDirectoryPage() {
                             <StoreIcon size={48} />
                             <h2>Something went wrong</h2>
                             <p>{error}</p>
-                            <Button onClick={() => window.location.reload()}>
+                            <Button onClick={() => refetch()}>
                                 Try Again
                             </Button>
                         </div>
@@ -233,6 +223,8 @@ export function StoreDirectoryPage() {
                                         key={store.id}
                                         className="directory__store-card"
                                         onClick={() => handleStoreClick(store.storeSlug)}
+                                        onMouseEnter={() => prefetchStore(store.storeSlug)}
+                                        onTouchStart={() => prefetchStore(store.storeSlug)}
                                     >
                                         <div className="directory__store-header">
                                             {store.logoUrl ? (
@@ -277,6 +269,10 @@ export function StoreDirectoryPage() {
                                             </p>
                                         )}
 
+                                        {getStoreTerms(store) && (
+                                            <p className="directory__store-terms">{getStoreTerms(store)}</p>
+                                        )}
+
                                         <div className="directory__store-footer">
                                             <span className={`directory__store-status ${store.acceptOrders ? 'directory__store-status--open' : 'directory__store-status--closed'}`}>
                                                 {store.acceptOrders ? 'Open for Orders' : 'Not Accepting Orders'}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getFieldErrors, isCancelled, isNotFound, matchFieldErrors, toApiFailure } from './api-errors';
+
+// Just enough of an AxiosError for the mapping
+function httpError(status: number, data: object = {}, headers: Record<string, string> = {}) {
+  return { response: { status, data, headers } } as never;
+}
+
+describe('toApiFailure', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('tells a missing resource apart from other failures', () => {
+    expect(toApiFailure(httpError(404, { message: 'Store not found' }))).toEqual({
+      kind: 'not-found',
+      message: 'Store not found',
+    });
+  });
+
+  it('keeps the field errors of a refused request', () => {
+    const failure = toApiFailure(httpError(400, {
+      message: 'Validation failed',
+      errors: { customerPhone: ['Phone number is not valid'] },
+    }));
+    expect(failure).toEqual({
+      kind: 'validation',
+      status: 400,
+      message: 'Validation failed',
+      fieldErrors: { customerPhone: ['Phone number is not valid'] },
+    });
+  });
+
+  it('only takes 400 and 422 as a problem with the fields sent', () => {
+    expect(toApiFailure(httpError(422, { message: 'Invalid', errors: {} })).kind).toBe('validation');
+    [401, 403, 409, 410].forEach((status) => {
+      expect(toApiFailure(httpError(status, { message: 'No' }))).toEqual({ kind: 'rejected', status, message: 'No' });
+    });
+  });
+
+  it('reads how long to wait when rate limited', () => {
+    const failure = toApiFailure(httpError(429, {}, { 'retry-after': '30' }));
+    expect(failure).toMatchObject({ kind: 'rate-limited', retryAfterSeconds: 30 });
+  });
+
+  it('does not pass server error details on to the customer', () => {
+    const failure = toApiFailure(httpError(500, { message: 'NullPointerException at OrderService:212' }));
+    expect(failure).toEqual({ kind: 'server', status: 500, message: 'Something went wrong on our side. Please try again.' });
+  });
+
+  it('treats client and gateway timeouts alike', () => {
+    expect(toApiFailure({ code: 'ECONNABORTED' } as never).kind).toBe('timeout');
+    expect(toApiFailure(httpError(504)).kind).toBe('timeout');
+  });
+
+  it('says so when the customer is offline', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(toApiFailure({ code: 'ERR_NETWORK' } as never)).toEqual({
+      kind: 'network',
+      message: "You're offline. Check your connection and try again.",
+    });
+  });
+});
+
+describe('failure helpers', () => {
+  const notFound = { success: false, error: { kind: 'not-found' as const, message: 'Not found' } };
+  const refused = {
+    success: false,
+    error: { kind: 'validation' as const, status: 422, message: 'Invalid', fieldErrors: { customerEmail: ['Invalid email'] } },
+  };
+
+  it('only calls a 404 not found', () => {
+    expect(isNotFound(notFound)).toBe(true);
+    expect(isNotFound({ success: false, error: { kind: 'network', message: 'Offline' } })).toBe(false);
+    expect(isNotFound(undefined)).toBe(false);
+  });
+
+  it('returns field errors only for refused requests', () => {
+    expect(getFieldErrors(refused)).toEqual({ customerEmail: ['Invalid email'] });
+    expect(getFieldErrors(notFound)).toEqual({});
+  });
+
+  it('spots a request the caller cancelled', () => {
+    expect(isCancelled({ code: 'ERR_CANCELED' } as never)).toBe(true);
+    expect(isCancelled({ code: 'ERR_NETWORK' } as never)).toBe(false);
+  });
+});
+
+describe('matchFieldErrors', () => {
+  const formFields = { customerName: 'name', customerPhone: 'phone' } as const;
+
+  it('puts the first message for each field on that field', () => {
+    expect(matchFieldErrors({ customerPhone: ['Too short', 'Not a Nigerian number'] }, formFields)).toEqual({
+      fields: { phone: 'Too short' },
+      other: [],
+    });
+  });
+
+  it('keeps errors for fields the form does not have', () => {
+    expect(matchFieldErrors({ 'items[0].quantity': ['Only 2 left'], customerName: ['Required'] }, formFields)).toEqual({
+      fields: { name: 'Required' },
+      other: ['Only 2 left'],
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Turning axios errors into ApiFailure, so a failed call says what went wrong
+ * (a missing store, a rejected field, no signal) instead of just "failed".
+ */
+import type { AxiosError } from 'axios';
+import type { ApiError, ApiFailure, ApiResponse } from '@/types/api.types';
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+// Gateways give up on a slow backend with these; to the customer it's the same as timing out
+const TIMEOUT_STATUSES = [408, 504];
+// Only these say the request itself was wrong, with field errors to show
+const VALIDATION_STATUSES = [400, 422];
+
+/** The caller aborted the request itself (a newer search, a page left behind) */
+export function isCancelled(error: AxiosError): boolean {
+    return error.code === 'ERR_CANCELED';
+}
+
+/** Retry-After is either seconds or an HTTP date */
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function toApiFailure(error: AxiosError<Partial<ApiError>>): ApiFailure {
+    const response = error.response;
+    const timedOut = (!!error.code && TIMEOUT_CODES.includes(error.code))
+        || (!!response && TIMEOUT_STATUSES.includes(response.status));
+    if (timedOut) {
+        return { kind: 'timeout', message: 'This is taking too long. Please try again.' };
+    }
+    if (!response) {
+        const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+        return {
+            kind: 'network',
+            message: offline
+                ? "You're offline. Check your connection and try again."
+                : 'Unable to connect. Please check your connection and try again.',
+        };
+    }
+
+    const { status } = response;
+    const message = response.data?.message;
+    if (status === 404) {
+        return { kind: 'not-found', message: message || "We couldn't find what you were looking for." };
+    }
+    if (status === 429) {
+        const retryAfterSeconds = parseRetryAfter(response.headers?.['retry-after']);
+        return {
+            kind: 'rate-limited',
+            message: message || 'Too many requests. Please wait a moment and try again.',
+            retryAfterSeconds,
+        };
+    }
+    if (status >= 500) {
+        return { kind: 'server', status, message: 'Something went wrong on our side. Please try again.' };
+    }
+    if (VALIDATION_STATUSES.includes(status)) {
+        return {
+            kind: 'validation',
+            status,
+            message: message || `Request failed (${status})`,
+            fieldErrors: response.data?.errors ?? {},
+        };
+    }
+    return { kind: 'rejected', status, message: message || `Request failed (${status})` };
+}
+
+export function isNotFound(response: ApiResponse<unknown> | undefined): boolean {
+    return response?.error?.kind === 'not-found';
+}
+
+/** Field errors from a refused request, keyed by request field; empty for any other failure */
+export function getFieldErrors(response: ApiResponse<unknown> | undefined): Record<string, string[]> {
+    return response?.error?.kind === 'validation' ? response.error.fieldErrors : {};
+}
+
+/**
+ * Pair a refused request's field errors with the form fields they belong to.
+ * Errors on fields the form doesn't have (an item line, a zone ID) come back
+ * in other, to show above the form.
+ */
+export function matchFieldErrors<F extends string>(
+    fieldErrors: Record<string, string[]>,
+    formFields: Partial<Record<string, F>>
+): { fields: Partial<Record<F, string>>; other: string[] } {
+    const fields: Partial<Record<F, string>> = {};
+    const other: string[] = [];
+    Object.entries(fieldErrors).forEach(([name, messages]) => {
+        const field = formFields[name];
+        if (!messages.length) return;
+        if (field && !fields[field]) fields[field] = messages[0];
+        else if (!field) other.push(...messages);
+    });
+    return { fields, other };
+}
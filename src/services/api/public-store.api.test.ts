@@ -49,25 +49,58 @@ describe('publicStoreApi', () => {
 
       const result = await publicStoreApi.getStore('test-store');
 
-      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store');
+      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store', { signal: undefined });
       expect(result.data?.storeName).toBe('Test Store');
     });
   });
 
   describe('getProducts', () => {
-    it('calls correct endpoint with pagination', async () => {
+    it('calls correct endpoint for the first page', async () => {
       mockGet.mockResolvedValue({
-        data: { success: true, data: { content: [], totalElements: 0 } },
+        data: { success: true, data: { content: [], nextCursor: null } },
       });
 
-      await publicStoreApi.getProducts('test-store', 0, 24, 'GENERAL', 'search');
+      await publicStoreApi.getProducts('test-store', undefined, 24, { category: 'GENERAL', search: 'search' });
 
       expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/products', {
-        params: { page: 0, size: 24, category: 'GENERAL', search: 'search' },
+        params: { size: 24, category: 'GENERAL', search: 'search' },
+      });
+    });
+
+    it('sends filters and sort, and can be cancelled', async () => {
+      mockGet.mockResolvedValue({
+        data: { success: true, data: { content: [], nextCursor: null } },
+      });
+      const controller = new AbortController();
+
+      await publicStoreApi.getProducts(
+        'test-store',
+        'eyJpZCI6NDh9',
+        24,
+        { minPrice: 500, maxPrice: 2000, inStock: true, sort: 'unitPrice,asc' },
+        controller.signal
+      );
+
+      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/products', {
+        params: { cursor: 'eyJpZCI6NDh9', size: 24, minPrice: 500, maxPrice: 2000, inStock: true, sort: 'unitPrice,asc' },
+        signal: controller.signal,
       });
     });
   });
 
+  describe('getProductCategories', () => {
+    it('calls the store categories endpoint', async () => {
+      mockGet.mockResolvedValue({
+        data: { success: true, data: [{ category: 'FOOD_BEVERAGES', displayName: 'Food & Beverages', count: 12 }] },
+      });
+
+      const result = await publicStoreApi.getProductCategories('test-store');
+
+      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/categories', { signal: undefined });
+      expect(result.data).toHaveLength(1);
+    });
+  });
+
   describe('getProductBySlug', () => {
     it('calls correct endpoint', async () => {
       mockGet.mockResolvedValue({
@@ -76,7 +109,50 @@ describe('publicStoreApi', () => {
 
       await publicStoreApi.getProductBySlug('test-store', 'widget-slug');
 
-      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/product/widget-slug');
+      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/product/widget-slug', { signal: undefined });
+    });
+  });
+
+  describe('quoteCart', () => {
+    it('posts items and fulfillment type to quote endpoint', async () => {
+      mockPost.mockResolvedValue({
+        data: { success: true, data: { lines: [], subtotalKobo: 200000, totalKobo: 215000 } },
+      });
+
+      const items = [{ lineId: 'p1', productId: 'p1', quantity: 2 }];
+      const result = await publicStoreApi.quoteCart('test-store', items, 'DELIVERY' as never);
+
+      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/cart/quote', {
+        fulfillmentType: 'DELIVERY',
+        items,
+      });
+      expect(result.data?.totalKobo).toBe(215000);
+    });
+
+    it('includes the delivery zone when one is chosen', async () => {
+      mockPost.mockResolvedValue({ data: { success: true, data: { lines: [] } } });
+
+      const items = [{ lineId: 'p1', productId: 'p1', quantity: 1 }];
+      await publicStoreApi.quoteCart('test-store', items, 'DELIVERY' as never, 'zone-lekki');
+
+      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/cart/quote', {
+        fulfillmentType: 'DELIVERY',
+        deliveryZoneId: 'zone-lekki',
+        items,
+      });
+    });
+
+    it('includes the promo code to price in', async () => {
+      mockPost.mockResolvedValue({ data: { success: true, data: { lines: [] } } });
+
+      const items = [{ lineId: 'p1', productId: 'p1', quantity: 1 }];
+      await publicStoreApi.quoteCart('test-store', items, 'PICKUP' as never, undefined, 'SAVE10');
+
+      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/cart/quote', {
+        fulfillmentType: 'PICKUP',
+        couponCode: 'SAVE10',
+        items,
+      });
     });
   });
 
@@ -92,11 +168,83 @@ describe('publicStoreApi', () => {
         items: [{ productId: 'p1', quantity: 2 }],
       };
 
-      const result = await publicStoreApi.placeOrder('test-store', order as never);
+      const result = await publicStoreApi.placeOrder('test-store', order as never, 'key-1');
 
-      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/orders', order);
+      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/orders', order, {
+        headers: { 'Idempotency-Key': 'key-1' },
+      });
       expect(result.data?.orderNumber).toBe('ORD-2026-0001');
     });
+
+    it('sends a double tap once', async () => {
+      mockPost.mockResolvedValue({ data: { success: true, data: { orderNumber: 'ORD-2026-0002' } } });
+      const order = { items: [{ productId: 'p1', quantity: 1 }] };
+
+      const [first, second] = await Promise.all([
+        publicStoreApi.placeOrder('test-store', order as never, 'key-2'),
+        publicStoreApi.placeOrder('test-store', order as never, 'key-2'),
+      ]);
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+
+    it('retries a dropped request under the same key', async () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+      mockPost
+        .mockResolvedValueOnce({ data: { success: false, error: { kind: 'timeout', message: 'Too slow' } } })
+        .mockResolvedValueOnce({ data: { success: true, data: { orderNumber: 'ORD-2026-0003' } } });
+
+      const result = await publicStoreApi.placeOrder('test-store', { items: [] } as never, 'key-3');
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(mockPost.mock.calls.map((call) => call[2].headers['Idempotency-Key'])).toEqual(['key-3', 'key-3']);
+      expect(result.data?.orderNumber).toBe('ORD-2026-0003');
+      random.mockRestore();
+    });
+
+    it('does not retry an order the server refused', async () => {
+      mockPost.mockResolvedValue({
+        data: { success: false, error: { kind: 'validation', status: 400, message: 'Invalid', fieldErrors: {} } },
+      });
+
+      const result = await publicStoreApi.placeOrder('test-store', { items: [] } as never, 'key-4');
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('validateCoupon', () => {
+    it('posts the normalised code with the cart items', async () => {
+      mockPost.mockResolvedValue({
+        data: { success: true, data: { valid: false, discountKobo: 0, rejection: { code: 'EXPIRED', message: 'Expired' } } },
+      });
+
+      const items = [{ productId: 'p1', quantity: 1 }];
+      const result = await publicStoreApi.validateCoupon('test-store', ' save10 ', items);
+
+      expect(mockPost).toHaveBeenCalledWith('/public/store/test-store/coupons/validate', { code: 'SAVE10', items });
+      expect(result.data?.rejection?.code).toBe('EXPIRED');
+    });
+  });
+
+  describe('getTimeSlotBookings', () => {
+    it('asks for bookings in the window for the fulfillment type', async () => {
+      mockGet.mockResolvedValue({ data: { success: true, data: [{ start: '2026-03-04T09:00:00.000Z', booked: 2 }] } });
+
+      const result = await publicStoreApi.getTimeSlotBookings(
+        'test-store',
+        'PICKUP' as never,
+        '2026-03-04T00:00:00.000Z',
+        '2026-03-07T00:00:00.000Z'
+      );
+
+      expect(mockGet).toHaveBeenCalledWith('/public/store/test-store/time-slots', {
+        params: { fulfillmentType: 'PICKUP', from: '2026-03-04T00:00:00.000Z', to: '2026-03-07T00:00:00.000Z' },
+      });
+      expect(result.data).toHaveLength(1);
+    });
   });
 
   describe('trackOrder', () => {
@@ -122,13 +270,17 @@ describe('publicStoreApi', () => {
         'test-store',
         'ORD-2026-0001',
         'test@email.com',
-        'https://callback.url'
+        'https://callback.url',
+        'pay-key-1'
       );
 
       expect(mockPost).toHaveBeenCalledWith(
         '/public/store/test-store/orders/ORD-2026-0001/pay',
         null,
-        { params: { email: 'test@email.com', callbackUrl: 'https://callback.url' } }
+        {
+          params: { email: 'test@email.com', callbackUrl: 'https://callback.url' },
+          headers: { 'Idempotency-Key': 'pay-key-1' },
+        }
       );
     });
   });
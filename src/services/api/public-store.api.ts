@@ -3,9 +3,25 @@
  * Used by customers browsing QuickStore storefronts.
  */
 import axios from 'axios';
-import type { Store, OrderRequest, PaymentInitResponse, StoreCategory } from '@/types/store.types';
-import type { Product } from '@/types/product.types';
-import type { ApiResponse, PageResponse } from '@/types/api.types';
+import type { AxiosError } from 'axios';
+import type {
+    Store,
+    OrderRequest,
+    OrderItemRequest,
+    PaymentInitResponse,
+    StoreCategory,
+    CartQuote,
+    CartQuoteItemRequest,
+    CartQuoteRequest,
+    FulfillmentType,
+    TimeSlotBooking,
+    CouponValidation,
+    CouponValidationRequest,
+} from '@/types/store.types';
+import type { Product, ProductCategoryFacet, ProductSearchParams } from '@/types/product.types';
+import type { ApiError, ApiResponse, CursorPageResponse, PageResponse } from '@/types/api.types';
+import { isCancelled, toApiFailure } from './api-errors';
+import { withRetry } from './retry';
 
 // Create a separate axios instance for public endpoints (no auth)
 const publicClient = axios.create({
@@ -16,32 +32,39 @@ const publicClient = axios.create({
     },
 });
 
-// Normalize API errors into consistent ApiResponse format
-// This prevents unhandled exceptions from crashing the error boundary
+// Normalize API errors into consistent ApiResponse format, with a typed
+// failure saying what went wrong. This prevents unhandled exceptions from
+// crashing the error boundary.
 publicClient.interceptors.response.use(
     (response) => response,
-    (error) => {
-        if (error.response) {
-            // Server responded with a non-2xx status — return the error as a failed ApiResponse
-            return Promise.resolve({
-                data: {
-                    success: false,
-                    message: error.response.data?.message || `Request failed (${error.response.status})`,
-                },
-            });
-        }
-        // Network error / CORS / timeout — return a safe failed response
+    (error: AxiosError<Partial<ApiError>>) => {
+        // Aborted by the caller, who is no longer waiting for an answer
+        if (isCancelled(error)) return Promise.reject(error);
+        const failure = toApiFailure(error);
         return Promise.resolve({
-            data: {
-                success: false,
-                message: 'Unable to connect. Please check your connection and try again.',
-            },
+            data: { success: false, message: failure.message, error: failure },
         });
     }
 );
 
 const PUBLIC_STORE_BASE = '/public/store';
 
+// The server treats requests carrying a key it has seen as repeats of the first
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keyed writes still waiting on the server. A second call with the same key
+// (a double tap, a resubmit while retrying) shares the first call's answer
+// rather than sending the request again.
+const inFlight = new Map<string, Promise<unknown>>();
+
+function once<T>(idempotencyKey: string, send: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(idempotencyKey) as Promise<T> | undefined;
+    if (pending) return pending;
+    const request = send().finally(() => inFlight.delete(idempotencyKey));
+    inFlight.set(idempotencyKey, request);
+    return request;
+}
+
 // ==================== Types ====================
 
 export interface PublicStoreOrder {
@@ -88,12 +111,46 @@ export interface PublicStoreOrder {
     updatedAt: string;
 }
 
+/**
+ * The slice of a Product a cart line keeps. Everything else is refetched
+ * from the store when needed.
+ */
+export type CartProduct = Pick<
+    Product,
+    | 'id'
+    | 'name'
+    | 'slug'
+    | 'unitPrice'
+    | 'priceWithVat'
+    | 'taxable'
+    | 'vatRate'
+    | 'unit'
+    | 'imageUrl'
+    | 'stockQuantity'
+    | 'outOfStock'
+    | 'active'
+    | 'compareAtPrice'
+    | 'sale'
+>;
+
 export interface CartItem {
+    /** Identifies the line; the same product with a different variant or notes is a different line */
+    lineId: string;
     productId: string;
-    product: Product;
+    variantId?: string;
+    /** e.g. "Red / M", kept so the line reads correctly without the product's option list */
+    variantLabel?: string;
+    /** Snapshot with the variant's price, stock and image already applied */
+    product: CartProduct;
     quantity: number;
+    notes?: string;
+    /** Epoch ms of the last change to this line, used to resolve cross-tab conflicts */
+    updatedAt?: number;
 }
 
+/** A line on its way into the cart — the cart assigns the line ID */
+export type NewCartItem = Omit<CartItem, 'lineId' | 'updatedAt'>;
+
 // ==================== API ====================
 
 export const publicStoreApi = {
@@ -104,12 +161,14 @@ export const publicStoreApi = {
         page: number = 0,
         size: number = 20,
         search?: string,
-        category?: StoreCategory
+        category?: StoreCategory,
+        signal?: AbortSignal
     ): Promise<ApiResponse<PageResponse<Store>>> => {
         const response = await publicClient.get<ApiResponse<PageResponse<Store>>>(
             PUBLIC_STORE_BASE,
             {
                 params: { page, size, search, category },
+                signal,
             }
         );
         return response.data;
@@ -128,30 +187,44 @@ export const publicStoreApi = {
     /**
      * Get store by slug
      */
-    getStore: async (slug: string): Promise<ApiResponse<Store>> => {
-        const response = await publicClient.get<ApiResponse<Store>>(`${PUBLIC_STORE_BASE}/${slug}`);
+    getStore: async (slug: string, signal?: AbortSignal): Promise<ApiResponse<Store>> => {
+        const response = await publicClient.get<ApiResponse<Store>>(`${PUBLIC_STORE_BASE}/${slug}`, { signal });
         return response.data;
     },
 
     /**
-     * Get store products
+     * Search, filter and sort store products, a page at a time. Leave the
+     * cursor out for the first page, then pass the previous page's nextCursor.
+     * Pass a signal to cancel a search the customer has already moved on from.
      */
     getProducts: async (
         slug: string,
-        page: number = 0,
-        size: number = 20,
-        category?: string,
-        search?: string
-    ): Promise<ApiResponse<PageResponse<Product>>> => {
-        const response = await publicClient.get<ApiResponse<PageResponse<Product>>>(
+        cursor?: string,
+        size: number = 24,
+        query: ProductSearchParams = {},
+        signal?: AbortSignal
+    ): Promise<ApiResponse<CursorPageResponse<Product>>> => {
+        const response = await publicClient.get<ApiResponse<CursorPageResponse<Product>>>(
             `${PUBLIC_STORE_BASE}/${slug}/products`,
             {
-                params: { page, size, category, search },
+                params: { cursor, size, ...query },
+                signal,
             }
         );
         return response.data;
     },
 
+    /**
+     * Product categories the store actually uses, with product counts
+     */
+    getProductCategories: async (slug: string, signal?: AbortSignal): Promise<ApiResponse<ProductCategoryFacet[]>> => {
+        const response = await publicClient.get<ApiResponse<ProductCategoryFacet[]>>(
+            `${PUBLIC_STORE_BASE}/${slug}/categories`,
+            { signal }
+        );
+        return response.data;
+    },
+
     /**
      * Get single product by ID
      */
@@ -165,70 +238,144 @@ export const publicStoreApi = {
     /**
      * Get product by slug (for shareable links)
      */
-    getProductBySlug: async (storeSlug: string, productSlug: string): Promise<ApiResponse<Product>> => {
+    getProductBySlug: async (
+        storeSlug: string,
+        productSlug: string,
+        signal?: AbortSignal
+    ): Promise<ApiResponse<Product>> => {
         const response = await publicClient.get<ApiResponse<Product>>(
-            `${PUBLIC_STORE_BASE}/${storeSlug}/product/${productSlug}`
+            `${PUBLIC_STORE_BASE}/${storeSlug}/product/${productSlug}`,
+            { signal }
         );
         return response.data;
     },
 
     /**
-     * Place an order
+     * Price a cart on the server (line totals, VAT, delivery, discounts, stock warnings).
+     * Pass the delivery zone for stores that price delivery per zone, and the
+     * promo code the customer applied.
      */
-    placeOrder: async (slug: string, order: OrderRequest): Promise<ApiResponse<PublicStoreOrder>> => {
-        const response = await publicClient.post<ApiResponse<PublicStoreOrder>>(
-            `${PUBLIC_STORE_BASE}/${slug}/orders`,
-            order
+    quoteCart: async (
+        slug: string,
+        items: CartQuoteItemRequest[],
+        fulfillmentType: FulfillmentType,
+        deliveryZoneId?: string,
+        couponCode?: string
+    ): Promise<ApiResponse<CartQuote>> => {
+        const request: CartQuoteRequest = { fulfillmentType, items };
+        if (deliveryZoneId) request.deliveryZoneId = deliveryZoneId;
+        if (couponCode) request.couponCode = couponCode;
+        const response = await publicClient.post<ApiResponse<CartQuote>>(
+            `${PUBLIC_STORE_BASE}/${slug}/cart/quote`,
+            request
         );
         return response.data;
     },
 
     /**
-     * Track an order
+     * Check a promo code against the cart. A rejected code still comes back as
+     * a successful response, with the reason in `rejection`.
      */
-    trackOrder: async (slug: string, orderNumber: string): Promise<ApiResponse<PublicStoreOrder>> => {
-        const response = await publicClient.get<ApiResponse<PublicStoreOrder>>(
-            `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}`
+    validateCoupon: async (
+        slug: string,
+        code: string,
+        items: OrderItemRequest[]
+    ): Promise<ApiResponse<CouponValidation>> => {
+        const request: CouponValidationRequest = { code: code.trim().toUpperCase(), items };
+        const response = await publicClient.post<ApiResponse<CouponValidation>>(
+            `${PUBLIC_STORE_BASE}/${slug}/coupons/validate`,
+            request
         );
         return response.data;
     },
 
     /**
-     * Initialize payment for an order
+     * Bookings held against the store's time slots between two instants
      */
-    initializePayment: async (
+    getTimeSlotBookings: async (
         slug: string,
-        orderNumber: string,
-        email: string,
-        callbackUrl: string
-    ): Promise<ApiResponse<PaymentInitResponse>> => {
-        const response = await publicClient.post<ApiResponse<PaymentInitResponse>>(
-            `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}/pay`,
-            null,
+        fulfillmentType: FulfillmentType,
+        from: string,
+        to: string
+    ): Promise<ApiResponse<TimeSlotBooking[]>> => {
+        const response = await publicClient.get<ApiResponse<TimeSlotBooking[]>>(
+            `${PUBLIC_STORE_BASE}/${slug}/time-slots`,
             {
-                params: { email, callbackUrl },
+                params: { fulfillmentType, from, to },
             }
         );
         return response.data;
     },
 
     /**
-     * Verify payment
+     * Place an order. The idempotency key belongs to the checkout attempt: send
+     * the same key again (after a timeout, a reload) and the server returns the
+     * order it already created instead of a second one. Retried while the
+     * network or server is failing.
      */
-    verifyPayment: async (
-        slug: string,
-        orderNumber: string,
-        reference: string
-    ): Promise<ApiResponse<PublicStoreOrder>> => {
+    placeOrder: (slug: string, order: OrderRequest, idempotencyKey: string): Promise<ApiResponse<PublicStoreOrder>> =>
+        once(idempotencyKey, () => withRetry(async () => {
+            const response = await publicClient.post<ApiResponse<PublicStoreOrder>>(
+                `${PUBLIC_STORE_BASE}/${slug}/orders`,
+                order,
+                {
+                    headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+                }
+            );
+            return response.data;
+        })),
+
+    /**
+     * Track an order
+     */
+    trackOrder: async (slug: string, orderNumber: string): Promise<ApiResponse<PublicStoreOrder>> => {
         const response = await publicClient.get<ApiResponse<PublicStoreOrder>>(
-            `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}/verify-payment`,
-            {
-                params: { reference },
-            }
+            `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}`
         );
         return response.data;
     },
 
+    /**
+     * Initialize payment for an order. Keyed like placeOrder, so a retry
+     * reuses the payment session already opened rather than starting another.
+     */
+    initializePayment: (
+        slug: string,
+        orderNumber: string,
+        email: string,
+        callbackUrl: string,
+        idempotencyKey: string
+    ): Promise<ApiResponse<PaymentInitResponse>> =>
+        once(idempotencyKey, () => withRetry(async () => {
+            const response = await publicClient.post<ApiResponse<PaymentInitResponse>>(
+                `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}/pay`,
+                null,
+                {
+                    params: { email, callbackUrl },
+                    headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+                }
+            );
+            return response.data;
+        })),
+
+    /**
+     * Verify payment. Only reads the payment's state, so it is safe to retry.
+     */
+    verifyPayment: (
+        slug: string,
+        orderNumber: string,
+        reference: string
+    ): Promise<ApiResponse<PublicStoreOrder>> =>
+        withRetry(async () => {
+            const response = await publicClient.get<ApiResponse<PublicStoreOrder>>(
+                `${PUBLIC_STORE_BASE}/${slug}/orders/${orderNumber}/verify-payment`,
+                {
+                    params: { reference },
+                }
+            );
+            return response.data;
+        }),
+
     /**
      * Submit payment proof (e.g., bank transfer screenshot)
      */
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider, onlineManager } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { storeKeys, useStore, useStoreProducts } from './public-store.queries';
+
+const mockGetProducts = vi.fn();
+const mockGetStore = vi.fn();
+
+vi.mock('./public-store.api', () => ({
+  publicStoreApi: {
+    getProducts: (...args: unknown[]) => mockGetProducts(...args),
+    getStore: (...args: unknown[]) => mockGetStore(...args),
+  },
+}));
+
+const rice = { id: 'p1', slug: 'ofada-rice', name: 'Ofada Rice' };
+const beans = { id: 'p2', name: 'Honey Beans' };
+
+function setup() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return { queryClient, wrapper };
+}
+
+describe('storeKeys', () => {
+  it('nests everything about a store under its key', () => {
+    const store = storeKeys.detail('mama-put');
+    expect(storeKeys.products('mama-put', { search: 'rice' }).slice(0, store.length)).toEqual(store);
+    expect(storeKeys.product('mama-put', 'ofada-rice').slice(0, store.length)).toEqual(store);
+    expect(storeKeys.order('mama-put', 'ORD-1').slice(0, store.length)).toEqual(store);
+  });
+
+  it('keeps the directory apart from a store that happens to be called "directory"', () => {
+    expect(storeKeys.directory({ page: 0, size: 12 }).slice(0, 3)).not.toEqual(storeKeys.detail('directory'));
+  });
+});
+
+describe('offline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onlineManager.setOnline(false);
+  });
+
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
+  it('still asks for the store, so the service worker can answer from its cache', async () => {
+    mockGetStore.mockResolvedValue({ success: true, data: { storeSlug: 'mama-put', storeName: 'Mama Put' } });
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useStore('mama-put'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.data?.storeName).toBe('Mama Put');
+  });
+
+  it('still asks for the catalogue', async () => {
+    mockGetProducts.mockResolvedValue({ success: true, data: { content: [rice], nextCursor: null } });
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useStoreProducts('mama-put', {}), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.pages[0].content).toEqual([rice]);
+  });
+});
+
+describe('useStoreProducts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('follows the cursor from one page to the next', async () => {
+    mockGetProducts
+      .mockResolvedValueOnce({ success: true, data: { content: [rice], nextCursor: 'c2' } })
+      .mockResolvedValueOnce({ success: true, data: { content: [beans], nextCursor: null } });
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useStoreProducts('mama-put', { category: 'FOOD' }), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(() => result.current.fetchNextPage());
+    await waitFor(() => expect(result.current.data?.pages).toHaveLength(2));
+
+    expect(mockGetProducts).toHaveBeenLastCalledWith('mama-put', 'c2', 24, { category: 'FOOD' }, expect.any(AbortSignal));
+    expect(result.current.data?.pages.flatMap((page) => page.content)).toEqual([rice, beans]);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('seeds each product for its detail page, marked stale', async () => {
+    mockGetProducts.mockResolvedValue({ success: true, data: { content: [rice, beans], nextCursor: null } });
+    const { queryClient, wrapper } = setup();
+
+    const { result } = renderHook(() => useStoreProducts('mama-put', {}), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(queryClient.getQueryData(storeKeys.product('mama-put', 'ofada-rice'))).toEqual({ success: true, data: rice });
+    // No slug: product links fall back to the ID
+    expect(queryClient.getQueryData(storeKeys.product('mama-put', 'p2'))).toEqual({ success: true, data: beans });
+    expect(queryClient.getQueryState(storeKeys.product('mama-put', 'ofada-rice'))?.dataUpdatedAt).toBe(0);
+  });
+
+  it('leaves a product already fetched in full alone', async () => {
+    mockGetProducts.mockResolvedValue({ success: true, data: { content: [rice], nextCursor: null } });
+    const { queryClient, wrapper } = setup();
+    const detailed = { success: true, data: { ...rice, description: 'Stone-free' } };
+    queryClient.setQueryData(storeKeys.product('mama-put', 'ofada-rice'), detailed);
+
+    const { result } = renderHook(() => useStoreProducts('mama-put', {}), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(queryClient.getQueryData(storeKeys.product('mama-put', 'ofada-rice'))).toBe(detailed);
+  });
+
+  it('treats a failed page as an error so it can be retried', async () => {
+    mockGetProducts.mockResolvedValue({ success: false, message: 'Request failed (503)' });
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useStoreProducts('mama-put', {}), { wrapper });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error?.message).toBe('Request failed (503)');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * React Query hooks for the public storefront API.
+ *
+ * Every key comes from storeKeys, so pages that show the same store share one
+ * cache entry: opening a product from the storefront reuses the store already
+ * loaded, and going Back finds the catalogue pages still there.
+ */
+import { useCallback } from 'react';
+import { keepPreviousData, queryOptions, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import { publicStoreApi } from './public-store.api';
+import type { FulfillmentType, StoreCategory } from '@/types/store.types';
+import type { Product, ProductSearchParams } from '@/types/product.types';
+import type { ApiResponse } from '@/types/api.types';
+
+export const PRODUCT_PAGE_SIZE = 24;
+
+// Store details rarely change during a visit
+const STORE_STALE_TIME = 60_000;
+// Long enough that Back from a product page doesn't reload every page scrolled through
+const PRODUCTS_STALE_TIME = 5 * 60_000;
+const PRODUCT_STALE_TIME = 30_000;
+const CATEGORIES_STALE_TIME = 5 * 60_000;
+const DIRECTORY_STALE_TIME = 60_000;
+
+// React Query holds queries back while the browser says it's offline. Store
+// pages still send theirs, so the service worker can answer from its cache and
+// a store visited before can be browsed without a connection.
+const CACHED_OFFLINE = 'offlineFirst' as const;
+
+export interface StoreDirectoryParams {
+    page: number;
+    size: number;
+    search?: string;
+    category?: StoreCategory;
+}
+
+export const storeKeys = {
+    all: ['public-store'] as const,
+    directory: (params: StoreDirectoryParams) => [...storeKeys.all, 'directory', params] as const,
+    detail: (slug: string) => [...storeKeys.all, 'store', slug] as const,
+    products: (slug: string, query: ProductSearchParams) => [...storeKeys.detail(slug), 'products', query] as const,
+    product: (slug: string, productSlug: string) => [...storeKeys.detail(slug), 'product', productSlug] as const,
+    categories: (slug: string) => [...storeKeys.detail(slug), 'categories'] as const,
+    sharedCart: (slug: string, share: string | null) => [...storeKeys.detail(slug), 'shared-cart', share] as const,
+    cartQuote: (slug: string, request: object) => [...storeKeys.detail(slug), 'cart-quote', request] as const,
+    timeSlotBookings: (slug: string, fulfillmentType: FulfillmentType, from?: string) =>
+        [...storeKeys.detail(slug), 'time-slot-bookings', fulfillmentType, from] as const,
+    order: (slug: string, orderNumber: string) => [...storeKeys.detail(slug), 'order', orderNumber] as const,
+};
+
+function storeQuery(slug: string) {
+    return queryOptions({
+        queryKey: storeKeys.detail(slug),
+        queryFn: ({ signal }) => publicStoreApi.getStore(slug, signal),
+        staleTime: STORE_STALE_TIME,
+        networkMode: CACHED_OFFLINE,
+    });
+}
+
+function productQuery(storeSlug: string, productSlug: string) {
+    return queryOptions({
+        queryKey: storeKeys.product(storeSlug, productSlug),
+        queryFn: ({ signal }) => publicStoreApi.getProductBySlug(storeSlug, productSlug, signal),
+        staleTime: PRODUCT_STALE_TIME,
+        networkMode: CACHED_OFFLINE,
+    });
+}
+
+/**
+ * Put list results where the product page looks for them, so it opens with
+ * something on screen. They are marked stale: a list entry may leave out
+ * details, so the product page (or a hover prefetch) still fetches the product.
+ * Anything already cached is left alone.
+ */
+function seedProducts(queryClient: QueryClient, storeSlug: string, products: Product[]): void {
+    products.forEach((product) => {
+        const key = storeKeys.product(storeSlug, product.slug || product.id);
+        if (queryClient.getQueryData(key)) return;
+        queryClient.setQueryData<ApiResponse<Product>>(key, { success: true, data: product }, { updatedAt: 0 });
+    });
+}
+
+export function useStore(slug?: string) {
+    return useQuery({ ...storeQuery(slug ?? ''), enabled: !!slug });
+}
+
+export function useStoreProduct(storeSlug?: string, productSlug?: string) {
+    return useQuery({ ...productQuery(storeSlug ?? '', productSlug ?? ''), enabled: !!storeSlug && !!productSlug });
+}
+
+/**
+ * A store's catalogue for one search, a cursor page at a time. While a new
+ * search loads, the previous results stay as placeholder data. A page that
+ * fails throws, so it can be retried rather than ending the list.
+ */
+export function useStoreProducts(slug: string | undefined, query: ProductSearchParams) {
+    const queryClient = useQueryClient();
+    return useInfiniteQuery({
+        queryKey: storeKeys.products(slug ?? '', query),
+        queryFn: async ({ pageParam, signal }) => {
+            const res = await publicStoreApi.getProducts(slug!, pageParam, PRODUCT_PAGE_SIZE, query, signal);
+            if (!res.success || !res.data) throw new Error(res.message || 'Failed to load products');
+            seedProducts(queryClient, slug!, res.data.content);
+            return res.data;
+        },
+        initialPageParam: undefined as string | undefined,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!slug,
+        placeholderData: keepPreviousData,
+        staleTime: PRODUCTS_STALE_TIME,
+        networkMode: CACHED_OFFLINE,
+    });
+}
+
+export function useProductCategories(slug?: string) {
+    return useQuery({
+        queryKey: storeKeys.categories(slug ?? ''),
+        queryFn: ({ signal }) => publicStoreApi.getProductCategories(slug!, signal),
+        enabled: !!slug,
+        staleTime: CATEGORIES_STALE_TIME,
+        networkMode: CACHED_OFFLINE,
+    });
+}
+
+export function useStoreDirectory(params: StoreDirectoryParams) {
+    return useQuery({
+        queryKey: storeKeys.directory(params),
+        queryFn: ({ signal }) => publicStoreApi.listStores(
+            params.page,
+            params.size,
+            params.search || undefined,
+            params.category,
+            signal
+        ),
+        placeholderData: keepPreviousData,
+        staleTime: DIRECTORY_STALE_TIME,
+        networkMode: CACHED_OFFLINE,
+    });
+}
+
+/** Start loading a store before the customer has finished tapping its card */
+export function usePrefetchStore() {
+    const queryClient = useQueryClient();
+    return useCallback((slug: string) => {
+        queryClient.prefetchQuery(storeQuery(slug));
+    }, [queryClient]);
+}
+
+/** Start loading a product page on hover or touch */
+export function usePrefetchProduct(storeSlug?: string) {
+    const queryClient = useQueryClient();
+    return useCallback((productSlug: string) => {
+        if (storeSlug) queryClient.prefetchQuery(productQuery(storeSlug, productSlug));
+    }, [queryClient, storeSlug]);
+}
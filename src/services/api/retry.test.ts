@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getRetryDelay, isRetryable, withRetry } from './retry';
+
+const timeout = { kind: 'timeout' as const, message: 'Too slow' };
+
+describe('isRetryable', () => {
+  it('retries failures that may clear up by themselves', () => {
+    expect(isRetryable(timeout)).toBe(true);
+    expect(isRetryable({ kind: 'network', message: 'Offline' })).toBe(true);
+    expect(isRetryable({ kind: 'server', status: 503, message: 'Down' })).toBe(true);
+  });
+
+  it('leaves refusals alone', () => {
+    expect(isRetryable({ kind: 'validation', status: 400, message: 'Invalid', fieldErrors: {} })).toBe(false);
+    expect(isRetryable({ kind: 'not-found', message: 'Gone' })).toBe(false);
+    expect(isRetryable({ kind: 'rejected', status: 409, message: 'Already paid' })).toBe(false);
+    expect(isRetryable(undefined)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('waits a random time under a cap that doubles each attempt', () => {
+    expect(getRetryDelay(0, timeout, { baseDelayMs: 500 }, () => 0.999)).toBe(499);
+    expect(getRetryDelay(2, timeout, { baseDelayMs: 500 }, () => 0.999)).toBe(1998);
+    expect(getRetryDelay(10, timeout, { baseDelayMs: 500, maxDelayMs: 4000 }, () => 0.5)).toBe(2000);
+  });
+
+  it('waits as long as a rate limit asks, unless that is too long', () => {
+    const limited = { kind: 'rate-limited' as const, message: 'Slow down', retryAfterSeconds: 2 };
+    expect(getRetryDelay(0, limited)).toBe(2000);
+    expect(getRetryDelay(0, { ...limited, retryAfterSeconds: 60 })).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('tries again until the request goes through', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const request = vi.fn()
+      .mockResolvedValueOnce({ success: false, error: timeout })
+      .mockResolvedValueOnce({ success: false, error: { kind: 'network', message: 'Offline' } })
+      .mockResolvedValueOnce({ success: true, data: 'ok' });
+
+    await expect(withRetry(request)).resolves.toEqual({ success: true, data: 'ok' });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with the last failure', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const request = vi.fn().mockResolvedValue({ success: false, error: timeout });
+
+    await expect(withRetry(request, { retries: 2 })).resolves.toEqual({ success: false, error: timeout });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Retrying requests that are safe to repeat: reads, and writes the server can
+ * recognise as repeats by their idempotency key.
+ *
+ * Delays use "full jitter" (a random wait up to an exponentially growing cap),
+ * so customers knocked offline together don't all come back at the same moment.
+ */
+import type { ApiFailure, ApiResponse } from '@/types/api.types';
+
+export interface RetryOptions {
+    /** Attempts after the first */
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+/**
+ * Failures that may go away on their own. A refused or missing resource will
+ * be refused again, so those are returned straight away.
+ */
+export function isRetryable(failure: ApiFailure | undefined): boolean {
+    if (!failure) return false;
+    return failure.kind === 'network'
+        || failure.kind === 'timeout'
+        || failure.kind === 'rate-limited'
+        || failure.kind === 'server';
+}
+
+/**
+ * How long to wait before retry number `attempt` (0 for the first retry), or
+ * null to stop. A server asking for a longer pause than we are willing to wait
+ * gets its answer passed on instead.
+ */
+export function getRetryDelay(
+    attempt: number,
+    failure: ApiFailure,
+    options: RetryOptions = {},
+    random: () => number = Math.random
+): number | null {
+    const { baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS } = options;
+    if (failure.kind === 'rate-limited' && failure.retryAfterSeconds !== undefined) {
+        const retryAfterMs = failure.retryAfterSeconds * 1000;
+        return retryAfterMs <= maxDelayMs ? retryAfterMs : null;
+    }
+    const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.floor(random() * cap);
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a request, repeating it after a jittered pause while it fails in a way
+ * that may clear up. Resolves with the last response either way.
+ */
+export async function withRetry<T>(
+    request: () => Promise<ApiResponse<T>>,
+    options: RetryOptions = {}
+): Promise<ApiResponse<T>> {
+    const { retries = DEFAULT_RETRIES } = options;
+    let response = await request();
+    for (let attempt = 0; attempt < retries; attempt++) {
+        if (response.success || !response.error || !isRetryable(response.error)) break;
+        const delay = getRetryDelay(attempt, response.error, options);
+        if (delay === null) break;
+        await wait(delay);
+        response = await request();
+    }
+    return response;
+}
@@ -3,8 +3,24 @@ export interface ApiResponse<T> {
     success: boolean;
     message?: string;
     data?: T;
+    /** Set on failed calls: what kind of failure, for pages that handle them differently */
+    error?: ApiFailure;
 }
 
+// Why a call failed. message is always fit to show the customer.
+export type ApiFailure =
+    | { kind: 'not-found'; message: string }
+    /** The request was refused as sent; fieldErrors is keyed by request field */
+    | { kind: 'validation'; message: string; status: number; fieldErrors: Record<string, string[]> }
+    /** Refused for something other than what was sent: not allowed (401, 403), a conflict (409), gone (410) */
+    | { kind: 'rejected'; message: string; status: number }
+    | { kind: 'rate-limited'; message: string; retryAfterSeconds?: number }
+    | { kind: 'network'; message: string }
+    | { kind: 'timeout'; message: string }
+    | { kind: 'server'; message: string; status: number };
+
+export type ApiFailureKind = ApiFailure['kind'];
+
 // Paginated response
 export interface PageResponse<T> {
     content: T[];
@@ -16,6 +32,13 @@ export interface PageResponse<T> {
     last: boolean;
 }
 
+// Cursor-paginated response: pass nextCursor back for the following page
+export interface CursorPageResponse<T> {
+    content: T[];
+    /** Null on the last page */
+    nextCursor: string | null;
+}
+
 // Error response
 export interface ApiError {
     success: false;
@@ -31,6 +31,41 @@ export interface Product {
     totalBatchQuantity?: number;
     activeBatchCount?: number;
     expiringBatchCount?: number;
+    // Variants — absent for single-SKU products
+    options?: ProductOption[];
+    variants?: ProductVariant[];
+    // Promotions
+    compareAtPrice?: number;  // "Was" price in naira, shown struck through when above the selling price
+    sale?: ProductSale;
+}
+
+/** A time-boxed percentage off the product and all its variants */
+export interface ProductSale {
+    percentOff: number;
+    startsAt?: string;
+    endsAt?: string;
+}
+
+// ==================== Variants ====================
+
+/** An option axis such as Size or Colour, with its values in display order */
+export interface ProductOption {
+    name: string;
+    values: string[];
+}
+
+export interface ProductVariant {
+    id: string;
+    sku?: string;
+    /** Value chosen on each axis, keyed by option name */
+    options: Record<string, string>;
+    unitPrice?: number;  // In naira; falls back to the product price
+    priceWithVat?: number;
+    compareAtPrice?: number;
+    stockQuantity: number;
+    outOfStock: boolean;
+    active: boolean;
+    imageUrl?: string;
 }
 
 export interface ProductRequest {
@@ -69,6 +104,25 @@ export interface ProductFilters {
     search?: string;
 }
 
+/** One of a store's product categories, with how many visible products it has */
+export interface ProductCategoryFacet {
+    category: string;
+    displayName: string;
+    /** Absent when the facet was pieced together from products already loaded */
+    count?: number;
+}
+
+/** Storefront catalogue query. Prices are in naira, before VAT */
+export interface ProductSearchParams {
+    search?: string;
+    category?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    /** Spring-style "field,direction", e.g. "unitPrice,asc" */
+    sort?: string;
+}
+
 // ==================== Batch Tracking (Inventory 2.0) ====================
 
 export interface ProductBatch {
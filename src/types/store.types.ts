@@ -32,6 +32,12 @@ export enum FulfillmentType {
     DELIVERY = 'DELIVERY',
 }
 
+/** Whether shelf prices are shown with VAT already included */
+export enum TaxDisplayMode {
+    INCLUSIVE = 'INCLUSIVE',
+    EXCLUSIVE = 'EXCLUSIVE',
+}
+
 export enum StoreCategory {
     FOOD_AND_DRINKS = 'FOOD_AND_DRINKS',
     FASHION = 'FASHION',
@@ -78,16 +84,27 @@ export interface Store {
     state?: string;
     country: string;
     businessHours?: Record<string, { open: string; close: string }>;
+    /** IANA zone the business hours are in; Africa/Lagos when absent */
+    timezone?: string;
     isActive: boolean;
     acceptOrders: boolean;
     minimumOrderKobo: number;
     deliveryFeeKobo: number;
+    /** When present, delivery is priced per zone instead of the flat deliveryFeeKobo */
+    deliveryZones?: DeliveryZone[];
     pickupAvailable: boolean;
     deliveryAvailable: boolean;
+    /** When set, customers book a pickup or delivery time slot at checkout */
+    timeSlots?: TimeSlotSettings;
+    /** Automatic promotions; the best one for each cart line is applied */
+    promotions?: Promotion[];
     acceptBankTransfer: boolean;
     acceptCash: boolean;
     acceptOnlinePayment: boolean;
     primaryColor: string;
+    /** How prices are shown to customers; VAT-exclusive when absent */
+    taxDisplayMode?: TaxDisplayMode;
+    /** ISO 4217 code. Every *Kobo amount is in this currency's minor unit, not necessarily kobo */
     currency: string;
     publicUrl: string;
     // Accurify Pay fields
@@ -101,6 +118,83 @@ export interface Store {
     updatedAt: string;
 }
 
+export interface DeliveryZone {
+    id: string;
+    name: string;
+    state: string;
+    city?: string;
+    /** Local government areas covered, when the zone is narrower than the city */
+    lgas?: string[];
+    feeKobo: number;
+    /** Overrides the store minimum for deliveries to this zone */
+    minimumOrderKobo?: number;
+    /** e.g. "Same day", "1-2 days" */
+    estimatedDelivery?: string;
+    active: boolean;
+}
+
+export interface TimeSlotSettings {
+    enabled: boolean;
+    slotMinutes: number;
+    /** Preparation time: the earliest slot starts at least this long from now */
+    leadTimeMinutes: number;
+    /** Orders per slot; unlimited when absent */
+    capacity?: number;
+    /** How many days ahead, including today, can be booked */
+    daysAhead: number;
+}
+
+/** A booked pickup or delivery window */
+export interface OrderTimeSlot {
+    start: string;
+    end: string;
+}
+
+/** How many orders already hold a slot, by slot start */
+export interface TimeSlotBooking {
+    start: string;
+    booked: number;
+}
+
+export enum PromotionType {
+    QUANTITY_BREAK = 'QUANTITY_BREAK',
+    BUNDLE = 'BUNDLE',
+    BUY_X_GET_Y = 'BUY_X_GET_Y',
+}
+
+interface PromotionBase {
+    id: string;
+    name: string;
+    /** Products the promotion applies to, per cart line */
+    productIds: string[];
+    startsAt?: string;
+    endsAt?: string;
+    active: boolean;
+}
+
+/** Percent off the whole line once it reaches a quantity; the highest tier reached wins */
+export interface QuantityBreakPromotion extends PromotionBase {
+    type: PromotionType.QUANTITY_BREAK;
+    tiers: Array<{ minQuantity: number; percentOff: number }>;
+}
+
+/** A fixed price for a set number of units, e.g. 3 for ₦1,000 */
+export interface BundlePromotion extends PromotionBase {
+    type: PromotionType.BUNDLE;
+    quantity: number;
+    bundlePriceKobo: number;
+}
+
+/** Buy X, get Y at a discount; 100 percent off makes them free */
+export interface BuyXGetYPromotion extends PromotionBase {
+    type: PromotionType.BUY_X_GET_Y;
+    buyQuantity: number;
+    getQuantity: number;
+    percentOff: number;
+}
+
+export type Promotion = QuantityBreakPromotion | BundlePromotion | BuyXGetYPromotion;
+
 export interface StoreRequest {
     storeName: string;
     storeSlug: string;
@@ -129,14 +223,20 @@ export interface OrderItem {
     productId: string;
     productName: string;
     productSku?: string;
+    variantId?: string;
+    variantName?: string;
     unitPriceKobo: number;
     quantity: number;
+    /** VAT percentage charged on this item, 0 when not taxable */
+    vatRate?: number;
+    taxKobo?: number;
     totalKobo: number;
     notes?: string;
 }
 
 export interface OrderItemRequest {
     productId: string;
+    variantId?: string;
     quantity: number;
     unitPrice?: number;
     notes?: string;
@@ -154,8 +254,12 @@ export interface StoreOrder {
     status: OrderStatus;
     fulfillmentType: FulfillmentType;
     deliveryNotes?: string;
+    /** ISO time the customer asked for, when they ordered while the store was closed */
+    scheduledFor?: string;
+    timeSlot?: OrderTimeSlot;
     subtotalKobo: number;
     discountKobo: number;
+    couponCode?: string;
     taxKobo: number;
     deliveryFeeKobo: number;
     totalKobo: number;
@@ -184,11 +288,150 @@ export interface OrderRequest {
     customerAddress?: string;
     source?: OrderSource;
     fulfillmentType?: FulfillmentType;
+    deliveryZoneId?: string;
     deliveryNotes?: string;
+    scheduledFor?: string;
+    timeSlot?: OrderTimeSlot;
+    couponCode?: string;
     items: OrderItemRequest[];
     notes?: string;
 }
 
+// ==================== Cart Quote Types ====================
+
+export enum CartQuoteWarningCode {
+    PRICE_CHANGED = 'PRICE_CHANGED',
+    INSUFFICIENT_STOCK = 'INSUFFICIENT_STOCK',
+    OUT_OF_STOCK = 'OUT_OF_STOCK',
+    UNAVAILABLE = 'UNAVAILABLE',
+}
+
+export interface CartQuoteWarning {
+    code: CartQuoteWarningCode;
+    message: string;
+}
+
+export interface CartQuoteLine {
+    /** The cart line this prices, echoed from the request */
+    lineId: string;
+    productId: string;
+    variantId?: string;
+    productName: string;
+    quantity: number;
+    availableQuantity?: number;
+    unitPriceKobo: number;
+    previousUnitPriceKobo?: number;
+    vatRate?: number;
+    taxKobo: number;
+    /** What the line's promotion took off */
+    discountKobo: number;
+    /** The automatic promotion the server applied, when one did */
+    promotion?: CartQuotePromotion;
+    totalKobo: number;
+    warnings: CartQuoteWarning[];
+}
+
+/**
+ * Promotions don't stack: the server gives each line the single one that saves
+ * the most, a product's own sale included.
+ */
+export interface CartQuotePromotion {
+    /** Absent for a product's own sale */
+    promotionId?: string;
+    label: string;
+    /** What was applied, e.g. "Buy 1, get 1 free — 3 free" */
+    explanation: string;
+}
+
+/** A cart line to price, tagged so the quote line can be matched back to it */
+export interface CartQuoteItemRequest extends OrderItemRequest {
+    lineId: string;
+}
+
+export interface CartQuoteRequest {
+    fulfillmentType: FulfillmentType;
+    deliveryZoneId?: string;
+    /** Promo code to price in; the quote says what it took off or why it didn't apply */
+    couponCode?: string;
+    items: CartQuoteItemRequest[];
+}
+
+/** The promo code sent with a quote request, as the server priced it */
+export interface CartQuoteCoupon {
+    code: string;
+    /** Taken off the total; 0 when the code was rejected */
+    discountKobo: number;
+    rejection?: CouponRejection;
+}
+
+/**
+ * Server-priced cart. The storefront renders every total from this
+ * so the customer sees the same figures the merchant's order will have.
+ */
+export interface CartQuote {
+    lines: CartQuoteLine[];
+    subtotalKobo: number;
+    taxKobo: number;
+    deliveryFeeKobo: number;
+    /** Every line's promotion added up; already out of totalKobo */
+    discountKobo: number;
+    /** Present when a promo code was sent; its discount is already out of totalKobo */
+    coupon?: CartQuoteCoupon;
+    totalKobo: number;
+    currency: string;
+    quotedAt: string;
+}
+
+// ==================== Coupon Types ====================
+
+export enum CouponType {
+    PERCENTAGE = 'PERCENTAGE',
+    FIXED_AMOUNT = 'FIXED_AMOUNT',
+    FREE_DELIVERY = 'FREE_DELIVERY',
+}
+
+export interface Coupon {
+    code: string;
+    type: CouponType;
+    /** Percent off for PERCENTAGE, kobo off for FIXED_AMOUNT; unused for FREE_DELIVERY */
+    value: number;
+    /** Goods must come to at least this much */
+    minimumSpendKobo?: number;
+    /** Caps a percentage discount */
+    maxDiscountKobo?: number;
+    /** Limits the discount to these products; all products when absent */
+    productIds?: string[];
+    expiresAt?: string;
+}
+
+export enum CouponRejectionCode {
+    NOT_FOUND = 'NOT_FOUND',
+    EXPIRED = 'EXPIRED',
+    USAGE_LIMIT_REACHED = 'USAGE_LIMIT_REACHED',
+    MINIMUM_SPEND = 'MINIMUM_SPEND',
+    NO_ELIGIBLE_ITEMS = 'NO_ELIGIBLE_ITEMS',
+    DELIVERY_ONLY = 'DELIVERY_ONLY',
+}
+
+export interface CouponRejection {
+    code: CouponRejectionCode;
+    message: string;
+    /** For MINIMUM_SPEND: how much more the goods need to come to */
+    shortfallKobo?: number;
+}
+
+export interface CouponValidationRequest {
+    code: string;
+    items: OrderItemRequest[];
+}
+
+export interface CouponValidation {
+    valid: boolean;
+    coupon?: Coupon;
+    discountKobo: number;
+    rejection?: CouponRejection;
+}
+
 // ==================== Payment Types ====================
 
 export interface PaymentInitResponse {
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeStoreStatus,
+  formatScheduledTime,
+  getNextOpeningTime,
+  getStoreStatus,
+  getZonedTime,
+  normalizeBusinessHours,
+} from './business-hours';
+
+// Lagos is UTC+1 all year round
+const lagos = (iso: string) => new Date(`${iso}+01:00`);
+
+// 2026-03-04 is a Wednesday
+const WEEKDAYS = {
+  monday: { open: '09:00', close: '17:00' },
+  tuesday: { open: '09:00', close: '17:00' },
+  wednesday: { open: '09:00', close: '17:00' },
+  thursday: { open: '09:00', close: '17:00' },
+  friday: { open: '09:00', close: '17:00' },
+};
+
+describe('normalizeBusinessHours', () => {
+  it('lower-cases day keys and drops invalid entries', () => {
+    expect(normalizeBusinessHours({
+      Monday: { open: '9:00', close: '17:00' },
+      TUESDAY: { open: '09:00', close: 'late' },
+      funday: { open: '09:00', close: '17:00' },
+    })).toEqual({ monday: { open: '09:00', close: '17:00' } });
+  });
+});
+
+describe('getZonedTime', () => {
+  it('reads the day and time on the given clock', () => {
+    const instant = new Date('2026-03-04T23:30:00Z');
+    expect(getZonedTime(instant, 'Africa/Lagos')).toEqual({ day: 'thursday', minutes: 30 });
+    expect(getZonedTime(instant, 'America/New_York')).toEqual({ day: 'wednesday', minutes: 18 * 60 + 30 });
+  });
+});
+
+describe('getStoreStatus', () => {
+  it('treats a store without hours as always open', () => {
+    expect(getStoreStatus(undefined, lagos('2026-03-04T03:00:00'))).toEqual({ hasHours: false, isOpen: true });
+  });
+
+  it('reports time until closing while open', () => {
+    const status = getStoreStatus(WEEKDAYS, lagos('2026-03-04T16:15:00'));
+    expect(status).toEqual({ hasHours: true, isOpen: true, closesInMinutes: 45 });
+    expect(describeStoreStatus(status, 'wednesday')).toBe('Open now · closes in 45 min');
+  });
+
+  it('reports the next opening later today', () => {
+    const status = getStoreStatus(WEEKDAYS, lagos('2026-03-04T07:30:00'));
+    expect(status.opensAt).toEqual({ day: 'wednesday', time: '09:00', inMinutes: 90 });
+    expect(describeStoreStatus(status, 'wednesday')).toBe('Closed · opens at 9:00 AM');
+  });
+
+  it('skips closed days to the next opening', () => {
+    const status = getStoreStatus(WEEKDAYS, lagos('2026-03-06T18:00:00'));
+    expect(status.opensAt).toEqual({ day: 'monday', time: '09:00', inMinutes: 63 * 60 });
+    expect(describeStoreStatus(status, 'friday')).toBe('Closed · opens Monday at 9:00 AM');
+  });
+
+  it('keeps overnight ranges open past midnight', () => {
+    const hours = { friday: { open: '18:00', close: '02:00' } };
+    expect(getStoreStatus(hours, lagos('2026-03-07T01:00:00'))).toEqual({ hasHours: true, isOpen: true, closesInMinutes: 60 });
+    expect(getStoreStatus(hours, lagos('2026-03-07T03:00:00')).isOpen).toBe(false);
+  });
+
+  it('wraps from Sunday night into Monday', () => {
+    const hours = { sunday: { open: '20:00', close: '01:00' }, monday: { open: '08:00', close: '12:00' } };
+    expect(getStoreStatus(hours, lagos('2026-03-09T00:30:00')).closesInMinutes).toBe(30);
+    expect(getStoreStatus(hours, lagos('2026-03-09T02:00:00')).opensAt).toEqual({ day: 'monday', time: '08:00', inMinutes: 360 });
+  });
+
+  it('never closes when open around the clock every day', () => {
+    const allDay = { open: '00:00', close: '00:00' };
+    const hours = Object.fromEntries(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map((day) => [day, allDay]));
+    expect(getStoreStatus(hours, lagos('2026-03-04T12:00:00'))).toEqual({ hasHours: true, isOpen: true, closesInMinutes: undefined });
+  });
+
+  it('evaluates hours in the store timezone', () => {
+    // 15:00 in Lagos is 09:00 in New York
+    const status = getStoreStatus({ wednesday: { open: '09:00', close: '10:00' } }, lagos('2026-03-04T15:00:00'), 'America/New_York');
+    expect(status.isOpen).toBe(true);
+  });
+});
+
+describe('getNextOpeningTime', () => {
+  it('returns the instant the store opens', () => {
+    const now = lagos('2026-03-04T07:30:20');
+    const opening = getNextOpeningTime(getStoreStatus(WEEKDAYS, now), now);
+    expect(opening?.toISOString()).toBe('2026-03-04T08:00:00.000Z');
+    expect(formatScheduledTime(opening!.toISOString(), 'Africa/Lagos')).toMatch(/Wednesday.*9:00/);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Business hours: is the store open, and when does that change?
+ *
+ * Hours are evaluated on the store's own clock (Africa/Lagos unless the store
+ * says otherwise), never the visitor's. A range whose close is earlier than its
+ * open runs overnight into the next day; equal open and close means all day.
+ */
+import type { Store } from '@/types/store.types';
+
+export const DEFAULT_STORE_TIMEZONE = 'Africa/Lagos';
+
+export type DayKey = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+/** Display order, Monday first */
+export const DAY_KEYS: DayKey[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Index matches Date#getDay: Sunday is 0
+const WEEKDAY_KEYS: DayKey[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface DayHours {
+    open: string;
+    close: string;
+}
+
+export type WeeklyHours = Partial<Record<DayKey, DayHours>>;
+
+export interface StoreStatus {
+    /** False when the store has not published any hours — treated as always open */
+    hasHours: boolean;
+    isOpen: boolean;
+    /** While open: minutes until closing, unless it never closes */
+    closesInMinutes?: number;
+    /** While closed: the next opening on the store's clock */
+    opensAt?: { day: DayKey; time: string; inMinutes: number };
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function getStoreTimeZone(store: Pick<Store, 'timezone'>): string {
+    return store.timezone || DEFAULT_STORE_TIMEZONE;
+}
+
+export function formatDayName(day: DayKey): string {
+    return day.charAt(0).toUpperCase() + day.slice(1);
+}
+
+/**
+ * Format 24h time to 12h (e.g. "09:00" -> "9:00 AM").
+ */
+export function formatTime(time: string): string {
+    const [hourStr, minuteStr] = time.split(':');
+    const hour = parseInt(hourStr, 10);
+    const minute = minuteStr || '00';
+    if (hour === 0) return `12:${minute} AM`;
+    if (hour < 12) return `${hour}:${minute} AM`;
+    if (hour === 12) return `12:${minute} PM`;
+    return `${hour - 12}:${minute} PM`;
+}
+
+/** "HH:mm" to minutes past midnight */
+export function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/** Minutes past midnight to "HH:mm" */
+export function toTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Lower-case the day keys and drop anything that isn't a valid HH:mm range.
+ */
+export function normalizeBusinessHours(raw?: Record<string, { open: string; close: string }> | null): WeeklyHours {
+    const hours: WeeklyHours = {};
+    if (!raw) return hours;
+
+    Object.entries(raw).forEach(([key, value]) => {
+        const day = key.trim().toLowerCase() as DayKey;
+        if (!DAY_KEYS.includes(day) || !value) return;
+        const open = value.open?.trim();
+        const close = value.close?.trim();
+        if (!TIME_PATTERN.test(open ?? '') || !TIME_PATTERN.test(close ?? '')) return;
+        hours[day] = { open: toTime(toMinutes(open)), close: toTime(toMinutes(close)) };
+    });
+
+    return hours;
+}
+
+/**
+ * Day of week and minutes past midnight on the store's clock.
+ */
+export function getZonedTime(now: Date, timeZone: string = DEFAULT_STORE_TIMEZONE): { day: DayKey; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'long',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+    return {
+        day: part('weekday').toLowerCase() as DayKey,
+        minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+    };
+}
+
+// Opening ranges as minutes from Sunday 00:00, repeated a week either side so ranges wrap
+function getWeekRanges(hours: WeeklyHours): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+
+    WEEKDAY_KEYS.forEach((day, index) => {
+        const dayHours = hours[day];
+        if (!dayHours) return;
+        const open = toMinutes(dayHours.open);
+        const close = toMinutes(dayHours.close);
+        const start = index * MINUTES_PER_DAY + open;
+        const end = close > open
+            ? index * MINUTES_PER_DAY + close
+            : (index + 1) * MINUTES_PER_DAY + close;
+
+        [-MINUTES_PER_WEEK, 0, MINUTES_PER_WEEK].forEach((offset) => ranges.push([start + offset, end + offset]));
+    });
+
+    // Merge touching ranges so "closes in" reaches the real close across midnight
+    ranges.sort((a, b) => a[0] - b[0]);
+    return ranges.reduce<Array<[number, number]>>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+        return merged;
+    }, []);
+}
+
+export function getStoreStatus(
+    rawHours: Record<string, { open: string; close: string }> | undefined,
+    now: Date = new Date(),
+    timeZone: string = DEFAULT_STORE_TIMEZONE
+): StoreStatus {
+    const hours = normalizeBusinessHours(rawHours);
+    if (Object.keys(hours).length === 0) return { hasHours: false, isOpen: true };
+
+    const zoned = getZonedTime(now, timeZone);
+    const weekMinute = WEEKDAY_KEYS.indexOf(zoned.day) * MINUTES_PER_DAY + zoned.minutes;
+    const ranges = getWeekRanges(hours);
+
+    const current = ranges.find(([start, end]) => start <= weekMinute && weekMinute < end);
+    if (current) {
+        // A range covering the whole week never closes
+        const neverCloses = current[1] - current[0] >= 3 * MINUTES_PER_WEEK;
+        return {
+            hasHours: true,
+            isOpen: true,
+            closesInMinutes: neverCloses ? undefined : current[1] - weekMinute,
+        };
+    }
+
+    const next = ranges.find(([start]) => start > weekMinute);
+    if (!next) return { hasHours: true, isOpen: false };
+
+    const opening = ((next[0] % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    return {
+        hasHours: true,
+        isOpen: false,
+        opensAt: {
+            day: WEEKDAY_KEYS[Math.floor(opening / MINUTES_PER_DAY)],
+            time: toTime(opening % MINUTES_PER_DAY),
+            inMinutes: next[0] - weekMinute,
+        },
+    };
+}
+
+function formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * "Opens at 9:00 AM", "Opens tomorrow at 9:00 AM" or "Opens Monday at 9:00 AM".
+ */
+export function formatOpening(opensAt: NonNullable<StoreStatus['opensAt']>, today: DayKey): string {
+    const time = formatTime(opensAt.time);
+    if (opensAt.day === today && opensAt.inMinutes < MINUTES_PER_DAY) return `Opens at ${time}`;
+    const tomorrow = WEEKDAY_KEYS[(WEEKDAY_KEYS.indexOf(today) + 1) % 7];
+    if (opensAt.day === tomorrow && opensAt.inMinutes < 2 * MINUTES_PER_DAY) return `Opens tomorrow at ${time}`;
+    return `Opens ${formatDayName(opensAt.day)} at ${time}`;
+}
+
+/**
+ * One-line summary: "Open now · closes in 2h 15m", "Closed · opens at 9:00 AM".
+ */
+export function describeStoreStatus(status: StoreStatus, today: DayKey): string {
+    if (status.isOpen) {
+        return status.closesInMinutes === undefined
+            ? 'Open now'
+            : `Open now · closes in ${formatDuration(status.closesInMinutes)}`;
+    }
+    if (!status.opensAt) return 'Closed';
+    const opening = formatOpening(status.opensAt, today);
+    return `Closed · ${opening.charAt(0).toLowerCase()}${opening.slice(1)}`;
+}
+
+/**
+ * The instant the store next opens, for scheduling an order while it is closed.
+ */
+export function getNextOpeningTime(status: StoreStatus, now: Date = new Date()): Date | undefined {
+    if (status.isOpen || !status.opensAt) return undefined;
+    const next = new Date(now.getTime() + status.opensAt.inMinutes * 60_000);
+    next.setSeconds(0, 0);
+    return next;
+}
+
+/**
+ * A scheduled order time on the store's clock, e.g. "Monday 4 May, 9:00 AM".
+ */
+export function formatScheduledTime(iso: string, timeZone: string = DEFAULT_STORE_TIMEZONE): string {
+    return new Date(iso).toLocaleString('en-NG', {
+        timeZone,
+        weekday: 'long',
+        day: 'numeric',
+        month: 'short',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
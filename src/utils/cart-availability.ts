@@ -0,0 +1,52 @@
+import type { CartProduct } from '@/services/api/public-store.api';
+
+export interface CartLineAvailability {
+    /** Units of this product already in the cart */
+    quantityInCart: number;
+    /** Most units the customer can have in the cart */
+    maxQuantity: number;
+    /** Units that can still be added */
+    remaining: number;
+    canAdd: boolean;
+    /** Set when the cart holds more than the store can sell */
+    exceedsStock: boolean;
+    /** Why nothing more can be added, for button tooltips and hints */
+    reason?: string;
+}
+
+export function isOutOfStock(product: CartProduct): boolean {
+    return product.outOfStock || product.stockQuantity <= 0;
+}
+
+/**
+ * The one set of stock rules every add-to-cart and quantity control follows.
+ */
+export function getLineAvailability(product: CartProduct, quantityInCart: number): CartLineAvailability {
+    const maxQuantity = isOutOfStock(product) || !product.active ? 0 : product.stockQuantity;
+    const remaining = Math.max(0, maxQuantity - quantityInCart);
+
+    let reason: string | undefined;
+    if (!product.active) {
+        reason = 'This item is no longer available';
+    } else if (maxQuantity === 0) {
+        reason = 'Out of stock';
+    } else if (remaining === 0) {
+        reason = `Only ${maxQuantity} available`;
+    }
+
+    return {
+        quantityInCart,
+        maxQuantity,
+        remaining,
+        canAdd: remaining > 0,
+        exceedsStock: quantityInCart > maxQuantity,
+        reason,
+    };
+}
+
+/**
+ * Clamp a requested cart quantity to what the store can sell.
+ */
+export function clampQuantity(product: CartProduct, quantity: number): number {
+    return Math.min(Math.max(0, Math.floor(quantity)), getLineAvailability(product, 0).maxQuantity);
+}
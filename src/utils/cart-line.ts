@@ -0,0 +1,49 @@
+import type { CartItem } from '@/services/api/public-store.api';
+
+export const MAX_LINE_NOTES_LENGTH = 200;
+
+export function normalizeNotes(notes?: string): string | undefined {
+    const trimmed = notes?.trim().slice(0, MAX_LINE_NOTES_LENGTH);
+    return trimmed ? trimmed : undefined;
+}
+
+// Small, stable string hash (djb2) — keeps line IDs short whatever the notes say
+function hashString(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+
+/**
+ * Stock is tracked per variant, or per product when there are no variants.
+ */
+export function getStockKey(productId: string, variantId?: string): string {
+    return variantId ? `${productId}:${variantId}` : productId;
+}
+
+/**
+ * Deterministic line ID. A plain product line is keyed by the product (and variant) alone,
+ * so tabs adding the same thing independently end up editing the same line.
+ */
+export function getCartLineId(productId: string, notes?: string, variantId?: string): string {
+    const base = getStockKey(productId, variantId);
+    const normalized = normalizeNotes(notes);
+    return normalized ? `${base}~${hashString(normalized)}` : base;
+}
+
+/**
+ * Units of a product (or one of its variants) across every line, optionally leaving one line out.
+ */
+export function getProductQuantity(
+    cart: CartItem[],
+    productId: string,
+    variantId?: string,
+    excludeLineId?: string
+): number {
+    const key = getStockKey(productId, variantId);
+    return cart
+        .filter((item) => getStockKey(item.productId, item.variantId) === key && item.lineId !== excludeLineId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+}
@@ -0,0 +1,116 @@
+import type { CartItem, CartProduct } from '@/services/api/public-store.api';
+import { isOutOfStock } from './cart-availability';
+import { getProductQuantity, getStockKey } from './cart-line';
+
+export type CartItemIssueKind = 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'INSUFFICIENT_STOCK' | 'PRICE_CHANGED';
+
+export interface CartItemIssue {
+    productId: string;
+    variantId?: string;
+    kind: CartItemIssueKind;
+    message: string;
+    previousPrice?: number;
+    currentPrice?: number;
+    availableQuantity?: number;
+}
+
+/**
+ * Latest product data keyed by stock key (product, or product and variant),
+ * with the variant already applied. `null` means the product or variant
+ * could not be found (deleted or no longer public).
+ */
+export type LatestProducts = Record<string, CartProduct | null>;
+
+/**
+ * Compare a cart line against the live product and describe what changed.
+ */
+export function getCartItemIssues(
+    item: Pick<CartItem, 'productId' | 'variantId' | 'product' | 'quantity'>,
+    latest: CartProduct | null | undefined
+): CartItemIssue[] {
+    // Not fetched yet — nothing to report
+    if (latest === undefined) return [];
+
+    if (latest === null || !latest.active) {
+        return [{
+            productId: item.productId,
+            variantId: item.variantId,
+            kind: 'UNAVAILABLE',
+            message: 'This item is no longer available',
+        }];
+    }
+
+    if (isOutOfStock(latest)) {
+        return [{
+            productId: item.productId,
+            variantId: item.variantId,
+            kind: 'OUT_OF_STOCK',
+            message: 'This item is now out of stock',
+        }];
+    }
+
+    const issues: CartItemIssue[] = [];
+
+    if (latest.stockQuantity < item.quantity) {
+        issues.push({
+            productId: item.productId,
+            variantId: item.variantId,
+            kind: 'INSUFFICIENT_STOCK',
+            message: `Only ${latest.stockQuantity} left in stock`,
+            availableQuantity: latest.stockQuantity,
+        });
+    }
+
+    if (latest.unitPrice !== item.product.unitPrice) {
+        issues.push({
+            productId: item.productId,
+            variantId: item.variantId,
+            kind: 'PRICE_CHANGED',
+            message: latest.unitPrice > item.product.unitPrice ? 'Price has gone up' : 'Price has dropped',
+            previousPrice: item.product.unitPrice,
+            currentPrice: latest.unitPrice,
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Collect issues for every product (or variant) in the cart. Stock is checked
+ * against the quantity across all of its lines.
+ */
+export function getCartIssues(cart: CartItem[], latest: LatestProducts): CartItemIssue[] {
+    const seen = new Set<string>();
+    return cart.flatMap((item) => {
+        const key = getStockKey(item.productId, item.variantId);
+        if (seen.has(key)) return [];
+        seen.add(key);
+        const quantity = getProductQuantity(cart, item.productId, item.variantId);
+        return getCartItemIssues({ ...item, quantity }, latest[key]);
+    });
+}
+
+/**
+ * Apply live product data to the cart: drop unavailable lines, clamp quantities
+ * to stock and refresh the stored product snapshot (and therefore the price).
+ */
+export function applyLatestProducts(cart: CartItem[], latest: LatestProducts): CartItem[] {
+    // Stock is shared by every line of a product, so hand it out in cart order
+    const allocated: Record<string, number> = {};
+
+    return cart.flatMap((item) => {
+        const key = getStockKey(item.productId, item.variantId);
+        const product = latest[key];
+        if (product === undefined) return [item];
+        if (product === null || !product.active || isOutOfStock(product)) {
+            return [];
+        }
+
+        const available = product.stockQuantity - (allocated[key] ?? 0);
+        if (available <= 0) return [];
+
+        const quantity = Math.min(item.quantity, available);
+        allocated[key] = (allocated[key] ?? 0) + quantity;
+        return [{ ...item, product, quantity }];
+    });
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCartShare, decodeCartShare, buildCartShareUrl, resolveSharedCart } from './cart-share';
+import { ProductCategory } from '@/types/enums';
+
+const product = {
+  id: 'p1',
+  name: 'Jollof Pack',
+  slug: 'jollof-pack',
+  category: ProductCategory.FOOD_BEVERAGES,
+  categoryDisplayName: 'Food',
+  unitPrice: 2500,
+  priceWithVat: 2687.5,
+  unit: 'pack',
+  stockQuantity: 3,
+  reorderLevel: 1,
+  taxable: true,
+  vatRate: 7.5,
+  active: true,
+  lowStock: false,
+  outOfStock: false,
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+};
+
+describe('encodeCartShare / decodeCartShare', () => {
+  it('round-trips product references', () => {
+    const lines = [{ productId: 'p1', quantity: 2 }, { productId: 'p2', quantity: 1 }];
+    expect(decodeCartShare(encodeCartShare(lines))).toEqual(lines);
+  });
+
+  it('skips malformed entries', () => {
+    expect(decodeCartShare('p1:2,:3,p2:abc,p3:-1,p4:1.5,p5')).toEqual([{ productId: 'p1', quantity: 2 }]);
+  });
+
+  it('combines duplicate products', () => {
+    expect(decodeCartShare('p1:2,p1:3')).toEqual([{ productId: 'p1', quantity: 5 }]);
+  });
+
+  it('round-trips variant references', () => {
+    const lines = [{ productId: 'p1', variantId: 'v1', quantity: 1 }, { productId: 'p1', quantity: 2 }];
+    expect(encodeCartShare(lines)).toBe('p1.v1:1,p1:2');
+    expect(decodeCartShare(encodeCartShare(lines))).toEqual(lines);
+  });
+});
+
+describe('buildCartShareUrl', () => {
+  it('builds a store link with the cart param', () => {
+    const url = buildCartShareUrl('https://shop.test', 'mama-put', [{ productId: 'p1', quantity: 2 }]);
+    expect(new URL(url).pathname).toBe('/mama-put');
+    expect(new URL(url).searchParams.get('cart')).toBe('p1:2');
+  });
+});
+
+describe('resolveSharedCart', () => {
+  it('accepts available lines', () => {
+    const result = resolveSharedCart([{ productId: 'p1', quantity: 2 }], [product]);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].quantity).toBe(2);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('reports missing, inactive and out-of-stock products', () => {
+    const result = resolveSharedCart(
+      [
+        { productId: 'gone', quantity: 1 },
+        { productId: 'p1', quantity: 1 },
+        { productId: 'p2', quantity: 1 },
+      ],
+      [null, { ...product, active: false }, { ...product, id: 'p2', outOfStock: true, stockQuantity: 0 }]
+    );
+
+    expect(result.items).toEqual([]);
+    expect(result.problems.map((p) => p.reason)).toEqual(['No longer available', 'No longer available', 'Out of stock']);
+  });
+
+  it('keeps lines that could not be checked apart from ones that are gone', () => {
+    const result = resolveSharedCart(
+      [
+        { productId: 'gone', quantity: 1 },
+        { productId: 'p1', quantity: 1 },
+      ],
+      [null, undefined]
+    );
+
+    expect(result.items).toEqual([]);
+    expect(result.problems[0].reason).toBe('No longer available');
+    expect(result.problems[1].reason).toContain("Couldn't be checked");
+  });
+
+  it('applies the shared variant', () => {
+    const withVariants = {
+      ...product,
+      options: [{ name: 'Size', values: ['Small', 'Large'] }],
+      variants: [{ id: 'large', options: { Size: 'Large' }, unitPrice: 3500, stockQuantity: 2, outOfStock: false, active: true }],
+    };
+
+    const result = resolveSharedCart(
+      [{ productId: 'p1', variantId: 'large', quantity: 1 }, { productId: 'p1', variantId: 'gone', quantity: 1 }],
+      [withVariants, withVariants]
+    );
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({ variantId: 'large', variantLabel: 'Large' });
+    expect(result.items[0].product.unitPrice).toBe(3500);
+    expect(result.problems[0].reason).toBe('No longer available');
+  });
+
+  it('reduces quantities to stock and says so', () => {
+    const result = resolveSharedCart([{ productId: 'p1', quantity: 12 }], [product]);
+    expect(result.items[0].quantity).toBe(3);
+    expect(result.problems[0].reason).toContain('Only 3 of 12 available');
+  });
+});
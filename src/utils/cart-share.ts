@@ -0,0 +1,112 @@
+/**
+ * Shareable cart links: `/:slug?cart=<productId>[.<variantId>]:<qty>,...`.
+ * Only references travel in the URL; products are revalidated when the link is opened.
+ */
+import type { NewCartItem } from '@/services/api/public-store.api';
+import type { Product } from '@/types/product.types';
+import { getLineAvailability } from './cart-availability';
+import { getStockKey } from './cart-line';
+import { getVariantProduct, toCartItem } from './product-variants';
+
+export const CART_SHARE_PARAM = 'cart';
+
+/** More lines than any real basket — keeps crafted links from fanning out into hundreds of requests */
+export const MAX_SHARED_LINES = 50;
+
+export interface SharedCartLine {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export interface SharedCartProblem {
+    productId: string;
+    productName?: string;
+    reason: string;
+}
+
+export interface ResolvedSharedCart {
+    items: NewCartItem[];
+    problems: SharedCartProblem[];
+}
+
+export function encodeCartShare(items: SharedCartLine[]): string {
+    return items
+        .map((item) => {
+            const ref = item.variantId ? `${item.productId}.${item.variantId}` : item.productId;
+            return `${ref}:${item.quantity}`;
+        })
+        .join(',');
+}
+
+/**
+ * Parse a `cart` param. Malformed entries are skipped and duplicates are combined.
+ */
+export function decodeCartShare(value: string): SharedCartLine[] {
+    const byStockKey = new Map<string, SharedCartLine>();
+
+    value.split(',').forEach((entry) => {
+        const separator = entry.lastIndexOf(':');
+        if (separator <= 0) return;
+        const [productId, variantId] = entry.slice(0, separator).trim().split('.', 2);
+        const quantity = Number(entry.slice(separator + 1));
+        if (!productId || variantId === '' || !Number.isInteger(quantity) || quantity <= 0) return;
+
+        const key = getStockKey(productId, variantId);
+        const existing = byStockKey.get(key);
+        if (existing) {
+            existing.quantity += quantity;
+        } else {
+            byStockKey.set(key, variantId ? { productId, variantId, quantity } : { productId, quantity });
+        }
+    });
+
+    return Array.from(byStockKey.values()).slice(0, MAX_SHARED_LINES);
+}
+
+export function buildCartShareUrl(origin: string, storeSlug: string, items: SharedCartLine[]): string {
+    const params = new URLSearchParams({ [CART_SHARE_PARAM]: encodeCartShare(items) });
+    return `${origin}/${storeSlug}?${params.toString()}`;
+}
+
+/**
+ * Check shared lines against the products fetched for them.
+ * `products` holds `null` where the store no longer has the product, and
+ * `undefined` where it couldn't be asked (offline, a timeout), so that line
+ * isn't written off as gone.
+ */
+export function resolveSharedCart(lines: SharedCartLine[], products: Array<Product | null | undefined>): ResolvedSharedCart {
+    const items: NewCartItem[] = [];
+    const problems: SharedCartProblem[] = [];
+
+    lines.forEach((line, index) => {
+        const fetched = products[index];
+        if (fetched === undefined) {
+            problems.push({ productId: line.productId, reason: "Couldn't be checked right now — open the link again to retry" });
+            return;
+        }
+        const product = fetched && getVariantProduct(fetched, line.variantId);
+        if (!fetched || !product || !product.active) {
+            problems.push({ productId: line.productId, reason: 'No longer available' });
+            return;
+        }
+
+        const { maxQuantity } = getLineAvailability(product, 0);
+        if (maxQuantity === 0) {
+            problems.push({ productId: line.productId, productName: product.name, reason: 'Out of stock' });
+            return;
+        }
+
+        if (maxQuantity < line.quantity) {
+            problems.push({
+                productId: line.productId,
+                productName: product.name,
+                reason: `Only ${maxQuantity} of ${line.quantity} available — quantity reduced`,
+            });
+        }
+        const variant = fetched.variants?.find((v) => v.id === line.variantId);
+        items.push(toCartItem(fetched, variant, Math.min(line.quantity, maxQuantity)));
+    });
+
+    return { items, problems };
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CHECKOUT_ATTEMPT_TTL_MS,
+  IN_FLIGHT_WINDOW_MS,
+  beginCheckoutAttempt,
+  clearCheckoutAttempt,
+  isAwaitingPayment,
+  isInFlight,
+  isPlaced,
+  loadCheckoutAttempt,
+  recordOrderFailed,
+  recordOrderPlaced,
+  recordOrderQueued,
+} from './checkout-attempt';
+
+const order = { customerName: 'Ada', customerPhone: '08031234567', items: [{ productId: 'p1', quantity: 2 }] };
+const now = Date.parse('2026-03-04T12:00:00.000Z');
+
+describe('checkout attempts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps the key when the same order is submitted again', () => {
+    const first = beginCheckoutAttempt('mama-put', order, {}, now);
+    const again = beginCheckoutAttempt('mama-put', { ...order, items: [{ productId: 'p1', quantity: 2 }] }, {}, now + 5000);
+
+    expect(again.idempotencyKey).toBe(first.idempotencyKey);
+    expect(again.submittedAt).toBe(now + 5000);
+  });
+
+  it('starts afresh when the order changes', () => {
+    const first = beginCheckoutAttempt('mama-put', order, {}, now);
+    const changed = beginCheckoutAttempt('mama-put', { ...order, items: [{ productId: 'p1', quantity: 3 }] }, {}, now);
+
+    expect(changed.idempotencyKey).not.toBe(first.idempotencyKey);
+  });
+
+  it('starts afresh once the last order went through', () => {
+    const first = beginCheckoutAttempt('mama-put', order, {}, now);
+    recordOrderPlaced('mama-put', first, 'ORD-1');
+
+    expect(beginCheckoutAttempt('mama-put', order, {}, now).idempotencyKey).not.toBe(first.idempotencyKey);
+  });
+
+  it('survives a reload, with the order it placed and a key to pay with', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, {}, now);
+    recordOrderPlaced('mama-put', attempt, 'ORD-1');
+
+    const loaded = loadCheckoutAttempt('mama-put', now);
+    expect(loaded).toMatchObject({ idempotencyKey: attempt.idempotencyKey, request: order, orderNumber: 'ORD-1' });
+    expect(loaded?.paymentKey).toEqual(expect.any(String));
+    expect(loadCheckoutAttempt('other-store', now)).toBeNull();
+  });
+
+  it('forgets an attempt the server will have forgotten too', () => {
+    beginCheckoutAttempt('mama-put', order, {}, now);
+
+    expect(loadCheckoutAttempt('mama-put', now + CHECKOUT_ATTEMPT_TTL_MS)).toBeNull();
+    expect(localStorage.getItem('checkout_mama-put')).toBeNull();
+  });
+
+  it('discards entries it did not write', () => {
+    localStorage.setItem('checkout_mama-put', '{not json');
+    expect(loadCheckoutAttempt('mama-put', now)).toBeNull();
+    expect(localStorage.getItem('checkout_mama-put')).toBeNull();
+  });
+
+  it('clears an attempt', () => {
+    beginCheckoutAttempt('mama-put', order, {}, now);
+    clearCheckoutAttempt('mama-put');
+    expect(loadCheckoutAttempt('mama-put', now)).toBeNull();
+  });
+});
+
+describe('isInFlight', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('only resends a recent order nobody has heard back about', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, {}, now);
+
+    expect(isInFlight(attempt, now + 1000)).toBe(true);
+    expect(isInFlight(attempt, now + IN_FLIGHT_WINDOW_MS)).toBe(false);
+    expect(isInFlight(recordOrderPlaced('mama-put', attempt, 'ORD-1'), now + 1000)).toBe(false);
+  });
+
+  it('keeps an order queued offline until it is sent', () => {
+    const attempt = recordOrderQueued('mama-put', beginCheckoutAttempt('mama-put', order, {}, now));
+
+    expect(isInFlight(loadCheckoutAttempt('mama-put', now)!, now + IN_FLIGHT_WINDOW_MS * 3)).toBe(true);
+    expect(isInFlight(recordOrderPlaced('mama-put', attempt, 'ORD-1'), now)).toBe(false);
+  });
+
+  it('leaves a failed order for the customer to send again', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, {}, now);
+    recordOrderFailed('mama-put', attempt);
+
+    const loaded = loadCheckoutAttempt('mama-put', now)!;
+    expect(isInFlight(loaded, now + 1000)).toBe(false);
+    // ...under the same key when they do
+    expect(beginCheckoutAttempt('mama-put', order, {}, now + 2000).idempotencyKey).toBe(attempt.idempotencyKey);
+  });
+});
+
+describe('isAwaitingPayment', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('holds an order paid online until the payment is verified', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, { payOnline: true }, now);
+    expect(isAwaitingPayment(attempt)).toBe(false);
+
+    recordOrderPlaced('mama-put', attempt, 'ORD-1');
+    expect(isAwaitingPayment(loadCheckoutAttempt('mama-put', now)!)).toBe(true);
+  });
+
+  it('lets an order paid another way finish when it is placed', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, {}, now);
+    expect(isAwaitingPayment(recordOrderPlaced('mama-put', attempt, 'ORD-1'))).toBe(false);
+  });
+
+  it('gives a placed order a key to pay under', () => {
+    const attempt = beginCheckoutAttempt('mama-put', order, { payOnline: true }, now);
+    expect(isPlaced(attempt)).toBe(false);
+
+    const placed = recordOrderPlaced('mama-put', attempt, 'ORD-1');
+    expect(isPlaced(placed)).toBe(true);
+    expect(placed.paymentKey).toEqual(expect.any(String));
+    // Paying again after a failed payment reuses the key
+    expect(recordOrderPlaced('mama-put', placed, 'ORD-1').paymentKey).toBe(placed.paymentKey);
+  });
+});
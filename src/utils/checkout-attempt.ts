@@ -0,0 +1,173 @@
+/**
+ * The customer's current attempt to check out, kept in localStorage so it
+ * survives a reload.
+ *
+ * An attempt holds the idempotency key sent with the order. Submitting the
+ * same order again (a second tap after a timeout) reuses the key, so the
+ * server hands back the order it already made. Changing the order starts a new
+ * attempt. After a reload, an attempt still waiting on the server is resent
+ * with its key, and one that already has an order number is shown as placed.
+ * An order to be paid online isn't finished until its payment is verified, so
+ * it is kept, waiting for payment, until then. An order placed offline is
+ * queued here until the connection returns.
+ */
+import type { OrderRequest } from '@/types/store.types';
+
+export interface CheckoutAttempt {
+    idempotencyKey: string;
+    /** Exactly what was sent, so a recovered attempt can be resent unchanged */
+    request: OrderRequest;
+    /** Epoch ms the order was last submitted */
+    submittedAt: number;
+    /** Set once the server has confirmed the order */
+    orderNumber?: string;
+    /** Placed while offline and not sent yet */
+    queued?: boolean;
+    /**
+     * The last send failed and the customer was told so. Kept so submitting
+     * again reuses the key, but not resent by itself.
+     */
+    failed?: boolean;
+    /** Key for opening the order's payment session */
+    paymentKey?: string;
+    /** The customer chose to pay online, so placing the order is only half of it */
+    payOnline?: boolean;
+}
+
+/** An attempt the server created an order for, ready to be paid */
+export type PlacedCheckoutAttempt = CheckoutAttempt & { orderNumber: string; paymentKey: string };
+
+/** Servers keep idempotency keys for about a day; after that a key means nothing */
+export const CHECKOUT_ATTEMPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How recently an unanswered order must have been sent to be resent after a
+ * reload. Beyond this the customer has likely moved on, and an order that
+ * never arrived shouldn't appear out of nowhere.
+ */
+export const IN_FLIGHT_WINDOW_MS = 10 * 60 * 1000;
+
+function storageKey(storeSlug: string): string {
+    return `checkout_${storeSlug}`;
+}
+
+/** A random key, unique to this attempt */
+export function createIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+function saveCheckoutAttempt(storeSlug: string, attempt: CheckoutAttempt): void {
+    try {
+        localStorage.setItem(storageKey(storeSlug), JSON.stringify(attempt));
+    } catch (error) {
+        console.error('Failed to save checkout attempt', error);
+    }
+}
+
+export function clearCheckoutAttempt(storeSlug: string): void {
+    try {
+        localStorage.removeItem(storageKey(storeSlug));
+    } catch {
+        // Storage unavailable; nothing was kept
+    }
+}
+
+/**
+ * The store's checkout attempt, if there is one still worth knowing about.
+ * Expired or unreadable entries are removed.
+ */
+export function loadCheckoutAttempt(storeSlug: string, now: number = Date.now()): CheckoutAttempt | null {
+    let raw: string | null = null;
+    try {
+        raw = localStorage.getItem(storageKey(storeSlug));
+    } catch {
+        return null;
+    }
+    if (!raw) return null;
+
+    try {
+        const attempt = JSON.parse(raw) as CheckoutAttempt;
+        if (
+            typeof attempt?.idempotencyKey === 'string'
+            && typeof attempt.submittedAt === 'number'
+            && attempt.request
+            && now - attempt.submittedAt < CHECKOUT_ATTEMPT_TTL_MS
+        ) {
+            return attempt;
+        }
+    } catch {
+        // Not something we wrote
+    }
+    clearCheckoutAttempt(storeSlug);
+    return null;
+}
+
+/**
+ * Record that an order is being submitted and return the attempt to send it
+ * under. The same order as the last unfinished attempt keeps that attempt's
+ * key; anything else starts afresh.
+ */
+export function beginCheckoutAttempt(
+    storeSlug: string,
+    request: OrderRequest,
+    options: { payOnline?: boolean } = {},
+    now: number = Date.now()
+): CheckoutAttempt {
+    const previous = loadCheckoutAttempt(storeSlug, now);
+    const repeat = previous && !previous.orderNumber && JSON.stringify(previous.request) === JSON.stringify(request)
+        ? previous
+        : null;
+    const attempt: CheckoutAttempt = {
+        idempotencyKey: repeat?.idempotencyKey ?? createIdempotencyKey(),
+        request,
+        submittedAt: now,
+    };
+    if (options.payOnline) attempt.payOnline = true;
+    saveCheckoutAttempt(storeSlug, attempt);
+    return attempt;
+}
+
+/** Remember the order the server created, with a key for paying for it */
+export function recordOrderPlaced(storeSlug: string, attempt: CheckoutAttempt, orderNumber: string): PlacedCheckoutAttempt {
+    const placed: PlacedCheckoutAttempt = {
+        ...attempt,
+        orderNumber,
+        paymentKey: attempt.paymentKey ?? createIdempotencyKey(),
+    };
+    saveCheckoutAttempt(storeSlug, placed);
+    return placed;
+}
+
+/** Hold the order until the connection returns */
+export function recordOrderQueued(storeSlug: string, attempt: CheckoutAttempt): CheckoutAttempt {
+    const queued: CheckoutAttempt = { ...attempt, queued: true };
+    saveCheckoutAttempt(storeSlug, queued);
+    return queued;
+}
+
+/** The customer was told the order failed; they decide whether to send it again */
+export function recordOrderFailed(storeSlug: string, attempt: CheckoutAttempt): void {
+    saveCheckoutAttempt(storeSlug, { ...attempt, failed: true });
+}
+
+/**
+ * Sent recently and not yet answered, or queued and not yet sent: sending it
+ * (again) finds out what happened
+ */
+export function isInFlight(attempt: CheckoutAttempt, now: number = Date.now()): boolean {
+    if (attempt.orderNumber || attempt.failed) return false;
+    return !!attempt.queued || now - attempt.submittedAt < IN_FLIGHT_WINDOW_MS;
+}
+
+/** The server confirmed the order, so it can be shown as placed and paid for */
+export function isPlaced(attempt: CheckoutAttempt): attempt is PlacedCheckoutAttempt {
+    return !!attempt.orderNumber && !!attempt.paymentKey;
+}
+
+/** Placed, to be paid online, and not paid yet: the payment callback clears it once verified */
+export function isAwaitingPayment(attempt: CheckoutAttempt): attempt is PlacedCheckoutAttempt & { payOnline: true } {
+    return isPlaced(attempt) && !!attempt.payOnline;
+}
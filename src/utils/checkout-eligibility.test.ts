@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { getCheckoutEligibility, getBlockingReasons } from './checkout-eligibility';
+import { FulfillmentType } from '@/types/store.types';
+import type { Store } from '@/types/store.types';
+
+const store: Store = {
+  id: 'store-1',
+  storeName: 'Mama Put',
+  storeSlug: 'mama-put',
+  country: 'NG',
+  isActive: true,
+  acceptOrders: true,
+  minimumOrderKobo: 500000,
+  deliveryFeeKobo: 150000,
+  pickupAvailable: true,
+  deliveryAvailable: true,
+  acceptBankTransfer: true,
+  acceptCash: false,
+  acceptOnlinePayment: true,
+  primaryColor: '#0f62fe',
+  currency: 'NGN',
+  publicUrl: 'https://shop.test/mama-put',
+  subaccountVerified: true,
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+};
+
+// A Wednesday, mid-afternoon in Lagos
+const WEDNESDAY_3PM = new Date('2026-03-04T15:00:00+01:00');
+
+const codes = (stage: Parameters<typeof getCheckoutEligibility>[0], context: Partial<Parameters<typeof getCheckoutEligibility>[1]>) =>
+  getCheckoutEligibility(stage, { store, now: WEDNESDAY_3PM, ...context }).reasons.map((r) => r.code);
+
+describe('getCheckoutEligibility', () => {
+  it('lets a complete checkout through', () => {
+    const result = getCheckoutEligibility('details', {
+      store,
+      itemCount: 2,
+      goodsTotalKobo: 600000,
+      fulfillmentType: FulfillmentType.PICKUP,
+      paymentMethod: 'ONLINE',
+      now: WEDNESDAY_3PM,
+    });
+    expect(result).toEqual({ eligible: true, reasons: [] });
+  });
+
+  it('blocks every stage when the store has paused orders', () => {
+    const paused = { ...store, acceptOrders: false };
+    expect(getCheckoutEligibility('add-to-cart', { store: paused }).eligible).toBe(false);
+    expect(getCheckoutEligibility('whatsapp', { store: paused, now: WEDNESDAY_3PM }).reasons[0].code).toBe('ORDERS_PAUSED');
+  });
+
+  it('reports the shortfall below the minimum order', () => {
+    const result = getCheckoutEligibility('cart', { store, itemCount: 1, goodsTotalKobo: 350000, now: WEDNESDAY_3PM });
+    expect(result.reasons).toEqual([
+      expect.objectContaining({ code: 'BELOW_MINIMUM', kind: 'blocked', shortfallKobo: 150000 }),
+    ]);
+  });
+
+  it('states the minimum in the store currency', () => {
+    const result = getCheckoutEligibility('cart', {
+      store: { ...store, currency: 'GHS' },
+      itemCount: 1,
+      goodsTotalKobo: 350000,
+      now: WEDNESDAY_3PM,
+    });
+    expect(result.reasons[0].message).toBe('Minimum order is GH₵5,000 — add GH₵1,500 more');
+  });
+
+  it('skips the minimum check until the total is known', () => {
+    expect(codes('cart', { itemCount: 1 })).toEqual([]);
+  });
+
+  it('uses the delivery zone minimum for deliveries', () => {
+    const zone = { id: 'lekki', name: 'Lekki', state: 'Lagos', feeKobo: 250000, minimumOrderKobo: 1000000, active: true };
+    expect(codes('details', {
+      itemCount: 1,
+      goodsTotalKobo: 600000,
+      fulfillmentType: FulfillmentType.DELIVERY,
+      deliveryZone: zone,
+      paymentMethod: 'ONLINE',
+      store: { ...store, deliveryZones: [zone] },
+    })).toEqual(['BELOW_MINIMUM']);
+  });
+
+  it('blocks ordering outside business hours but not adding to cart', () => {
+    const hours = { ...store, businessHours: { wednesday: { open: '09:00', close: '13:00' } } };
+    expect(codes('cart', { store: hours, itemCount: 1 })).toEqual(['STORE_CLOSED']);
+    expect(codes('add-to-cart', { store: hours })).toEqual([]);
+  });
+
+  it('treats a day missing from the hours as closed', () => {
+    const hours = { ...store, businessHours: { Monday: { open: '09:00', close: '17:00' } } };
+    const result = getCheckoutEligibility('whatsapp', { store: hours, itemCount: 1, now: WEDNESDAY_3PM });
+    expect(result.reasons).toEqual([
+      expect.objectContaining({ code: 'STORE_CLOSED', message: 'The store is closed right now. Opens Monday at 9:00 AM.' }),
+    ]);
+  });
+
+  it('checks hours on the store clock, not the visitor clock', () => {
+    // 15:00 in Lagos is 09:00 in New York
+    const hours = { ...store, timezone: 'America/New_York', businessHours: { wednesday: { open: '09:00', close: '13:00' } } };
+    expect(codes('cart', { store: hours, itemCount: 1 })).toEqual([]);
+  });
+
+  it('lets a closed store take orders scheduled for when it opens', () => {
+    const hours = { ...store, businessHours: { thursday: { open: '09:00', close: '17:00' } } };
+    expect(codes('details', {
+      store: hours,
+      itemCount: 1,
+      fulfillmentType: FulfillmentType.PICKUP,
+      paymentMethod: 'ONLINE',
+      scheduledFor: '2026-03-05T08:00:00.000Z',
+    })).toEqual([]);
+  });
+
+  it('flags missing choices as incomplete, not blocked', () => {
+    const result = getCheckoutEligibility('details', { store, itemCount: 1, goodsTotalKobo: 600000, now: WEDNESDAY_3PM });
+    expect(result.reasons.map((r) => r.code)).toEqual(['FULFILLMENT_REQUIRED', 'PAYMENT_METHOD_REQUIRED']);
+    expect(getBlockingReasons(result)).toEqual([]);
+  });
+
+  it('rejects a fulfillment type or payment method the store does not offer', () => {
+    expect(codes('details', {
+      store: { ...store, deliveryAvailable: false },
+      fulfillmentType: FulfillmentType.DELIVERY,
+      paymentMethod: 'CASH',
+    })).toEqual(['FULFILLMENT_UNAVAILABLE', 'PAYMENT_METHOD_UNAVAILABLE']);
+  });
+
+  it('requires a delivery area when the store uses zones', () => {
+    const zoned = { ...store, deliveryZones: [{ id: 'ikeja', name: 'Ikeja', state: 'Lagos', feeKobo: 100000, active: true }] };
+    const base = { store: zoned, fulfillmentType: FulfillmentType.DELIVERY, paymentMethod: 'ONLINE' as const };
+    expect(codes('details', base)).toEqual(['DELIVERY_AREA_REQUIRED']);
+    expect(codes('details', { ...base, deliveryAreaUncovered: true })).toEqual(['DELIVERY_AREA_UNCOVERED']);
+  });
+
+  it('requires an open time slot when the store books them', () => {
+    const slotted = {
+      ...store,
+      businessHours: { thursday: { open: '09:00', close: '17:00' } },
+      timeSlots: { enabled: true, slotMinutes: 60, leadTimeMinutes: 30, capacity: 3, daysAhead: 3 },
+    };
+    const base = { store: slotted, itemCount: 1, fulfillmentType: FulfillmentType.PICKUP, paymentMethod: 'ONLINE' as const };
+    const slot = {
+      start: '2026-03-05T08:00:00.000Z',
+      end: '2026-03-05T09:00:00.000Z',
+      day: 'thursday' as const,
+      dayOffset: 1,
+      label: '9:00 AM – 10:00 AM',
+      available: true,
+    };
+    // Closed right now, but a slot tomorrow is a time the store is open
+    expect(codes('cart', base)).toEqual([]);
+    expect(codes('whatsapp', base)).toEqual(['STORE_CLOSED']);
+    expect(codes('details', base)).toEqual(['TIME_SLOT_REQUIRED']);
+    expect(codes('details', { ...base, timeSlot: slot })).toEqual([]);
+    expect(codes('details', { ...base, timeSlot: { ...slot, available: false, unavailableReason: 'FULL' } }))
+      .toEqual(['TIME_SLOT_UNAVAILABLE']);
+  });
+
+  it('blocks stores with no way to get or pay for an order', () => {
+    const bare = { ...store, pickupAvailable: false, deliveryAvailable: false, acceptOnlinePayment: false, acceptBankTransfer: false };
+    expect(codes('add-to-cart', { store: bare })).toEqual(['NO_FULFILLMENT']);
+    expect(codes('payment', { store: bare })).toEqual(['NO_PAYMENT_METHOD']);
+  });
+});
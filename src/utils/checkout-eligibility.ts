@@ -0,0 +1,198 @@
+/**
+ * Whether a customer may take the next step towards an order, and if not, why.
+ *
+ * Every ordering path (add to cart, cart, WhatsApp, checkout details, payment)
+ * asks this module instead of checking store flags itself, so the rules only
+ * live in one place.
+ */
+import type { DeliveryZone, Store } from '@/types/store.types';
+import { FulfillmentType } from '@/types/store.types';
+import { formatMoney } from './currency';
+import { formatOpening, getStoreStatus, getStoreTimeZone, getZonedTime } from './business-hours';
+import { getZoneMinimumOrder } from './delivery-zones';
+import { usesTimeSlots } from './time-slots';
+import type { TimeSlot } from './time-slots';
+
+export type PaymentMethod = 'ONLINE' | 'BANK_TRANSFER' | 'CASH';
+
+export type CheckoutStage = 'add-to-cart' | 'cart' | 'whatsapp' | 'details' | 'payment';
+
+export type CheckoutReasonCode =
+    | 'ORDERS_PAUSED'
+    | 'STORE_CLOSED'
+    | 'NO_FULFILLMENT'
+    | 'EMPTY_CART'
+    | 'BELOW_MINIMUM'
+    | 'FULFILLMENT_REQUIRED'
+    | 'FULFILLMENT_UNAVAILABLE'
+    | 'DELIVERY_AREA_REQUIRED'
+    | 'DELIVERY_AREA_UNCOVERED'
+    | 'TIME_SLOT_REQUIRED'
+    | 'TIME_SLOT_UNAVAILABLE'
+    | 'NO_PAYMENT_METHOD'
+    | 'PAYMENT_METHOD_REQUIRED'
+    | 'PAYMENT_METHOD_UNAVAILABLE';
+
+export interface CheckoutReason {
+    code: CheckoutReasonCode;
+    /**
+     * `blocked`: something the customer has to change or wait out.
+     * `incomplete`: a choice they simply haven't made yet.
+     */
+    kind: 'blocked' | 'incomplete';
+    message: string;
+    /** For BELOW_MINIMUM: how much more the goods need to come to */
+    shortfallKobo?: number;
+}
+
+export interface CheckoutEligibility {
+    eligible: boolean;
+    reasons: CheckoutReason[];
+}
+
+export interface CheckoutContext {
+    store: Store;
+    itemCount?: number;
+    /** Goods total from the quote, excluding delivery; omit while it is unknown */
+    goodsTotalKobo?: number;
+    fulfillmentType?: FulfillmentType;
+    deliveryZone?: DeliveryZone;
+    /** The customer said their area isn't in the zone list */
+    deliveryAreaUncovered?: boolean;
+    paymentMethod?: PaymentMethod;
+    /** ISO time the customer chose to have the order handled, while the store is closed */
+    scheduledFor?: string;
+    timeSlot?: TimeSlot;
+    now?: Date;
+}
+
+export function isPaymentMethodAccepted(store: Store, method: PaymentMethod): boolean {
+    switch (method) {
+        case 'ONLINE':
+            return store.acceptOnlinePayment;
+        case 'BANK_TRANSFER':
+            return store.acceptBankTransfer;
+        case 'CASH':
+            return store.acceptCash;
+    }
+}
+
+const ORDER_STAGES: CheckoutStage[] = ['cart', 'whatsapp', 'details'];
+
+export function getCheckoutEligibility(stage: CheckoutStage, context: CheckoutContext): CheckoutEligibility {
+    const { store, itemCount, goodsTotalKobo, fulfillmentType, deliveryZone, paymentMethod } = context;
+    const now = context.now ?? new Date();
+    const reasons: CheckoutReason[] = [];
+    const placingOrder = ORDER_STAGES.includes(stage);
+
+    if (!store.acceptOrders) {
+        reasons.push({ code: 'ORDERS_PAUSED', kind: 'blocked', message: "This store isn't accepting orders right now" });
+    }
+
+    if (stage !== 'payment' && !store.pickupAvailable && !store.deliveryAvailable) {
+        reasons.push({
+            code: 'NO_FULFILLMENT',
+            kind: 'blocked',
+            message: "This store isn't offering pickup or delivery right now",
+        });
+    }
+
+    // With time slots the customer books a time the store is open, so only WhatsApp orders wait on the hours
+    const booksTimeSlot = usesTimeSlots(store) && stage !== 'whatsapp';
+    if (placingOrder && !context.scheduledFor && !booksTimeSlot) {
+        const timeZone = getStoreTimeZone(store);
+        const status = getStoreStatus(store.businessHours, now, timeZone);
+        if (!status.isOpen) {
+            const opening = status.opensAt ? ` ${formatOpening(status.opensAt, getZonedTime(now, timeZone).day)}.` : '';
+            reasons.push({ code: 'STORE_CLOSED', kind: 'blocked', message: `The store is closed right now.${opening}` });
+        }
+    }
+
+    if (placingOrder && itemCount === 0) {
+        reasons.push({ code: 'EMPTY_CART', kind: 'incomplete', message: 'Your cart is empty' });
+    }
+
+    if (placingOrder && goodsTotalKobo !== undefined) {
+        const zone = fulfillmentType === FulfillmentType.DELIVERY ? deliveryZone : undefined;
+        const minimumKobo = getZoneMinimumOrder(store, zone);
+        if (minimumKobo > 0 && goodsTotalKobo < minimumKobo) {
+            const shortfallKobo = minimumKobo - goodsTotalKobo;
+            reasons.push({
+                code: 'BELOW_MINIMUM',
+                kind: 'blocked',
+                message: `Minimum order${zone ? ` for ${zone.name}` : ''} is ${formatMoney(minimumKobo, store.currency)} — add ${formatMoney(shortfallKobo, store.currency)} more`,
+                shortfallKobo,
+            });
+        }
+    }
+
+    if (stage === 'details') {
+        if (!fulfillmentType) {
+            reasons.push({ code: 'FULFILLMENT_REQUIRED', kind: 'incomplete', message: 'Choose pickup or delivery' });
+        } else if (
+            (fulfillmentType === FulfillmentType.PICKUP && !store.pickupAvailable) ||
+            (fulfillmentType === FulfillmentType.DELIVERY && !store.deliveryAvailable)
+        ) {
+            reasons.push({
+                code: 'FULFILLMENT_UNAVAILABLE',
+                kind: 'blocked',
+                message: `${fulfillmentType === FulfillmentType.PICKUP ? 'Pickup' : 'Delivery'} isn't available from this store`,
+            });
+        }
+
+        const usesZones = (store.deliveryZones ?? []).some((zone) => zone.active);
+        if (fulfillmentType === FulfillmentType.DELIVERY && usesZones) {
+            if (context.deliveryAreaUncovered) {
+                reasons.push({
+                    code: 'DELIVERY_AREA_UNCOVERED',
+                    kind: 'blocked',
+                    message: store.pickupAvailable
+                        ? "We don't deliver to your area yet — you can still order for pickup"
+                        : "We don't deliver to your area yet",
+                });
+            } else if (!deliveryZone) {
+                reasons.push({ code: 'DELIVERY_AREA_REQUIRED', kind: 'incomplete', message: 'Choose your delivery area' });
+            }
+        }
+
+        if (fulfillmentType && usesTimeSlots(store)) {
+            const noun = fulfillmentType === FulfillmentType.PICKUP ? 'pickup' : 'delivery';
+            if (!context.timeSlot) {
+                reasons.push({ code: 'TIME_SLOT_REQUIRED', kind: 'incomplete', message: `Choose a ${noun} time` });
+            } else if (!context.timeSlot.available) {
+                reasons.push({
+                    code: 'TIME_SLOT_UNAVAILABLE',
+                    kind: 'blocked',
+                    message: `That ${noun} time is no longer available — please choose another`,
+                });
+            }
+        }
+    }
+
+    if (stage === 'details' || stage === 'payment') {
+        if (!store.acceptOnlinePayment && !store.acceptBankTransfer && !store.acceptCash) {
+            reasons.push({
+                code: 'NO_PAYMENT_METHOD',
+                kind: 'blocked',
+                message: "This store hasn't set up any way to pay yet",
+            });
+        } else if (!paymentMethod) {
+            reasons.push({ code: 'PAYMENT_METHOD_REQUIRED', kind: 'incomplete', message: 'Choose a payment method' });
+        } else if (!isPaymentMethodAccepted(store, paymentMethod)) {
+            reasons.push({
+                code: 'PAYMENT_METHOD_UNAVAILABLE',
+                kind: 'blocked',
+                message: "That payment method isn't available any more — please choose another",
+            });
+        }
+    }
+
+    return { eligible: reasons.length === 0, reasons };
+}
+
+/**
+ * Reasons worth showing as warnings; unmade choices are left to the form itself.
+ */
+export function getBlockingReasons(eligibility: CheckoutEligibility): CheckoutReason[] {
+    return eligibility.reasons.filter((reason) => reason.kind === 'blocked');
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { describeCoupon, getQuoteCoupon } from './coupons';
+import { CouponRejectionCode, CouponType } from '@/types/store.types';
+import type { CartQuote } from '@/types/store.types';
+
+describe('describeCoupon', () => {
+  it('summarises the offer and its conditions', () => {
+    expect(describeCoupon({ code: 'SHIPFREE', type: CouponType.FREE_DELIVERY, value: 0 })).toBe('Free delivery');
+    expect(describeCoupon({ code: 'SAVE10', type: CouponType.PERCENTAGE, value: 10, minimumSpendKobo: 500000 }))
+      .toMatch(/^10% off on orders over ₦5,000$/);
+  });
+
+  it('states amounts in the store currency', () => {
+    expect(describeCoupon({ code: 'KES500', type: CouponType.FIXED_AMOUNT, value: 50000 }, 'KES')).toMatch(/^Ksh\s500 off$/);
+  });
+});
+
+describe('getQuoteCoupon', () => {
+  const quote = (coupon: CartQuote['coupon']): CartQuote => ({
+    lines: [],
+    subtotalKobo: 400000,
+    taxKobo: 0,
+    deliveryFeeKobo: 0,
+    discountKobo: 0,
+    coupon,
+    totalKobo: 400000,
+    currency: 'NGN',
+    quotedAt: '2026-03-01T12:00:00Z',
+  });
+
+  it('passes on why the quote no longer applies the code, for the customer to see', () => {
+    const rejection = {
+      code: CouponRejectionCode.MINIMUM_SPEND,
+      message: 'Spend ₦1,000 more to use SAVE10',
+      shortfallKobo: 100000,
+    };
+
+    const coupon = getQuoteCoupon(quote({ code: 'SAVE10', discountKobo: 0, rejection }), 'SAVE10');
+
+    expect(coupon?.rejection?.message).toBe('Spend ₦1,000 more to use SAVE10');
+  });
+
+  it('ignores a quote priced with another code, or none', () => {
+    const priced = quote({ code: 'SAVE10', discountKobo: 40000 });
+    expect(getQuoteCoupon(priced, 'WELCOME')).toBeUndefined();
+    expect(getQuoteCoupon(priced, undefined)).toBeUndefined();
+    expect(getQuoteCoupon(undefined, 'SAVE10')).toBeUndefined();
+  });
+});
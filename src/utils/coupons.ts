@@ -0,0 +1,39 @@
+/**
+ * Promo codes as the customer sees them. What a code is worth, and why it
+ * doesn't apply, comes from the server with every cart quote.
+ */
+import type { CartQuote, CartQuoteCoupon, Coupon } from '@/types/store.types';
+import { CouponType } from '@/types/store.types';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+
+/**
+ * e.g. "10% off (up to ₦2,000)", "₦500 off on orders over ₦5,000", "Free delivery".
+ */
+export function describeCoupon(coupon: Coupon, currency: string = DEFAULT_CURRENCY): string {
+    const scope = coupon.productIds?.length ? ' selected items' : '';
+    let description: string;
+    switch (coupon.type) {
+        case CouponType.PERCENTAGE:
+            description = `${coupon.value}% off${scope}`;
+            if (coupon.maxDiscountKobo) description += ` (up to ${formatMoney(coupon.maxDiscountKobo, currency)})`;
+            break;
+        case CouponType.FIXED_AMOUNT:
+            description = `${formatMoney(coupon.value, currency)} off${scope}`;
+            break;
+        case CouponType.FREE_DELIVERY:
+            description = 'Free delivery';
+            break;
+    }
+    if (coupon.minimumSpendKobo) description += ` on orders over ${formatMoney(coupon.minimumSpendKobo, currency)}`;
+    return description;
+}
+
+/**
+ * What the quote says about the applied code: its discount, or why it no
+ * longer applies. A quote from before the code was applied or removed says
+ * nothing about it.
+ */
+export function getQuoteCoupon(quote: CartQuote | undefined, appliedCode: string | undefined): CartQuoteCoupon | undefined {
+    if (!appliedCode || quote?.coupon?.code !== appliedCode) return undefined;
+    return quote.coupon;
+}
@@ -1,45 +1,11 @@
-import { describe, it, expect } from 'vitest';
-import { formatCurrency, formatCurrencyCompact, parseCurrencyInput, formatNumber } from './currency';
-
-describe('formatCurrency', () => {
-  it('formats zero correctly', () => {
-    expect(formatCurrency(0)).toContain('0');
-  });
-
-  it('formats whole numbers', () => {
-    const result = formatCurrency(1500);
-    expect(result).toContain('1,500');
-  });
-
-  it('formats decimal amounts', () => {
-    const result = formatCurrency(1500.5);
-    expect(result).toContain('1,500.5');
-  });
-
-  it('formats large amounts with commas', () => {
-    const result = formatCurrency(1000000);
-    expect(result).toContain('1,000,000');
-  });
-});
-
-describe('formatCurrencyCompact', () => {
-  it('returns billions format for >= 1B', () => {
-    expect(formatCurrencyCompact(1_500_000_000)).toBe('1.5B');
-  });
-
-  it('returns millions format for >= 1M', () => {
-    expect(formatCurrencyCompact(2_500_000)).toBe('2.5M');
-  });
-
-  it('returns thousands format for >= 1K', () => {
-    expect(formatCurrencyCompact(5_000)).toBe('5.0K');
-  });
-
-  it('falls back to formatCurrency for small amounts', () => {
-    const result = formatCurrencyCompact(500);
-    expect(result).toContain('500');
-  });
-});
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseCurrencyInput,
+  formatNumber,
+  formatMoney,
+  formatMajorAmount,
+  getCurrencyDecimals,
+} from './currency';
 
 describe('parseCurrencyInput', () => {
   it('parses clean number string', () => {
@@ -76,3 +42,37 @@ describe('formatNumber', () => {
     expect(formatNumber(0)).toBe('0');
   });
 });
+
+describe('getCurrencyDecimals', () => {
+  it('knows two-, zero- and three-decimal currencies', () => {
+    expect(getCurrencyDecimals('NGN')).toBe(2);
+    expect(getCurrencyDecimals('UGX')).toBe(0);
+    expect(getCurrencyDecimals('KWD')).toBe(3);
+  });
+
+  it('treats an unknown code as two-decimal', () => {
+    expect(getCurrencyDecimals('not-a-currency')).toBe(2);
+  });
+
+  it('looks each currency up once', () => {
+    const spy = vi.spyOn(Intl, 'NumberFormat');
+    getCurrencyDecimals('RWF');
+    getCurrencyDecimals('RWF');
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats minor units in the store currency and locale', () => {
+    expect(formatMoney(150000, 'NGN')).toBe('₦1,500');
+    expect(formatMoney(123456, 'GHS')).toBe('GH₵1,234.56');
+    expect(formatMoney(123456, 'KES')).toContain('1,234.56');
+    expect(formatMoney(1500, 'UGX')).toContain('1,500');
+    expect(formatMoney(1234567, 'KWD')).toContain('1,234.567');
+  });
+
+  it('falls back to the code for currencies Intl does not know', () => {
+    expect(formatMajorAmount(12, 'not-a-currency')).toBe('not-a-currency 12.00');
+  });
+});
@@ -1,27 +1,3 @@
-const NGN_FORMATTER = new Intl.NumberFormat('en-NG', {
-    style: 'currency',
-    currency: 'NGN',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-});
-
-export function formatCurrency(amount: number): string {
-    return NGN_FORMATTER.format(amount);
-}
-
-export function formatCurrencyCompact(amount: number): string {
-    if (amount >= 1_000_000_000) {
-        return `${(amount / 1_000_000_000).toFixed(1)}B`;
-    }
-    if (amount >= 1_000_000) {
-        return `${(amount / 1_000_000).toFixed(1)}M`;
-    }
-    if (amount >= 1_000) {
-        return `${(amount / 1_000).toFixed(1)}K`;
-    }
-    return formatCurrency(amount);
-}
-
 export function parseCurrencyInput(value: string): number {
     // Remove currency symbol and commas
     const cleaned = value.replace(/[,\s]/g, '');
@@ -32,3 +8,88 @@ export function parseCurrencyInput(value: string): number {
 export function formatNumber(num: number): string {
     return new Intl.NumberFormat('en-NG').format(num);
 }
+
+// ==================== Minor units ====================
+//
+// API amounts are integers in the currency's minor unit (kobo, pesewas, cents).
+// Most currencies have two decimals, but some have none (UGX, JPY) and a few
+// have three (KWD, BHD), so the factor always comes from the currency code.
+
+export const DEFAULT_CURRENCY = 'NGN';
+
+const CURRENCY_LOCALES: Record<string, string> = {
+    NGN: 'en-NG',
+    GHS: 'en-GH',
+    KES: 'en-KE',
+    UGX: 'en-UG',
+    TZS: 'en-TZ',
+    RWF: 'en-RW',
+    ZAR: 'en-ZA',
+    EGP: 'en-EG',
+    XOF: 'fr-SN',
+    XAF: 'fr-CM',
+    USD: 'en-US',
+    GBP: 'en-GB',
+    EUR: 'en-IE',
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+const currencyDecimals = new Map<string, number>();
+
+function getFormatter(currency: string, locale: string): Intl.NumberFormat {
+    const key = `${locale}:${currency}`;
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(locale, {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: 0,
+            maximumFractionDigits: getCurrencyDecimals(currency),
+        });
+        formatters.set(key, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * The locale a currency is usually shown in, e.g. GHS -> en-GH.
+ */
+export function getCurrencyLocale(currency: string): string {
+    return CURRENCY_LOCALES[currency.toUpperCase()] ?? 'en';
+}
+
+/**
+ * Digits after the decimal point: 2 for NGN, 0 for UGX, 3 for KWD.
+ * Unknown codes are treated as two-decimal.
+ */
+export function getCurrencyDecimals(currency: string): number {
+    let decimals = currencyDecimals.get(currency);
+    if (decimals === undefined) {
+        try {
+            decimals = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+        } catch {
+            decimals = 2;
+        }
+        currencyDecimals.set(currency, decimals);
+    }
+    return decimals;
+}
+
+/**
+ * Format an amount in minor units, e.g. formatMoney(150000, 'NGN') -> "₦1,500".
+ */
+export function formatMoney(minor: number, currency: string = DEFAULT_CURRENCY, locale?: string): string {
+    return formatMajorAmount(minor / 10 ** getCurrencyDecimals(currency), currency, locale);
+}
+
+/**
+ * Format an amount already in major units (product prices), e.g. 1500 -> "GH₵1,500".
+ */
+export function formatMajorAmount(amount: number, currency: string = DEFAULT_CURRENCY, locale?: string): string {
+    try {
+        return getFormatter(currency.toUpperCase(), locale ?? getCurrencyLocale(currency)).format(amount);
+    } catch {
+        // An unknown currency code shouldn't take the page down
+        return `${currency} ${amount.toFixed(2)}`;
+    }
+}
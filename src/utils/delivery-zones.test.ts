@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getActiveZones,
+  getLowestZoneFee,
+  getZoneCoverage,
+  getZoneMinimumOrder,
+  getZoneStates,
+  getZonesForState,
+  hasDeliveryZones,
+} from './delivery-zones';
+import type { DeliveryZone } from '@/types/store.types';
+
+const zone = (id: string, state: string, overrides: Partial<DeliveryZone> = {}): DeliveryZone => ({
+  id,
+  name: id,
+  state,
+  feeKobo: 150000,
+  active: true,
+  ...overrides,
+});
+
+const zones = [
+  zone('ikeja', 'Lagos', { city: 'Ikeja', feeKobo: 100000 }),
+  zone('lekki', 'Lagos', { lgas: ['Eti-Osa', 'Ibeju-Lekki'], feeKobo: 250000, minimumOrderKobo: 1000000 }),
+  zone('abuja', 'FCT', { feeKobo: 300000 }),
+  zone('retired', 'lagos ', { active: false }),
+];
+
+describe('delivery zones', () => {
+  it('ignores inactive zones', () => {
+    expect(getActiveZones({ deliveryZones: zones }).map((z) => z.id)).toEqual(['ikeja', 'lekki', 'abuja']);
+    expect(hasDeliveryZones({ deliveryZones: [zones[3]] })).toBe(false);
+    expect(hasDeliveryZones({})).toBe(false);
+  });
+
+  it('lists each state once, whatever its spelling', () => {
+    expect(getZoneStates(zones)).toEqual(['Lagos', 'FCT']);
+  });
+
+  it('finds zones in a state case-insensitively', () => {
+    expect(getZonesForState(zones, ' LAGOS').map((z) => z.id)).toEqual(['ikeja', 'lekki', 'retired']);
+  });
+
+  it('describes what a zone covers', () => {
+    expect(getZoneCoverage(zones[0])).toBe('Ikeja');
+    expect(getZoneCoverage(zones[1])).toBe('Eti-Osa, Ibeju-Lekki');
+    expect(getZoneCoverage(zones[2])).toBe('All of FCT');
+  });
+
+  it('uses the zone minimum order when it has one', () => {
+    const store = { minimumOrderKobo: 500000 };
+    expect(getZoneMinimumOrder(store, zones[1])).toBe(1000000);
+    expect(getZoneMinimumOrder(store, zones[0])).toBe(500000);
+    expect(getZoneMinimumOrder(store)).toBe(500000);
+  });
+
+  it('finds the cheapest fee', () => {
+    expect(getLowestZoneFee(zones.slice(0, 3))).toBe(100000);
+    expect(getLowestZoneFee([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Delivery zones: which areas a store delivers to, and what each one costs.
+ */
+import type { DeliveryZone, Store } from '@/types/store.types';
+
+export function getActiveZones(store: Pick<Store, 'deliveryZones'>): DeliveryZone[] {
+    return (store.deliveryZones ?? []).filter((zone) => zone.active);
+}
+
+export function hasDeliveryZones(store: Pick<Store, 'deliveryZones'>): boolean {
+    return getActiveZones(store).length > 0;
+}
+
+function normalizePlace(value: string): string {
+    return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * States with at least one zone, in the order the store listed them.
+ */
+export function getZoneStates(zones: DeliveryZone[]): string[] {
+    const seen = new Map<string, string>();
+    zones.forEach((zone) => {
+        const key = normalizePlace(zone.state);
+        if (!seen.has(key)) seen.set(key, zone.state);
+    });
+    return Array.from(seen.values());
+}
+
+export function getZonesForState(zones: DeliveryZone[], state: string): DeliveryZone[] {
+    const key = normalizePlace(state);
+    return zones.filter((zone) => normalizePlace(zone.state) === key);
+}
+
+/**
+ * Areas a zone covers, for showing under the picker.
+ */
+export function getZoneCoverage(zone: DeliveryZone): string {
+    if (zone.lgas?.length) return zone.lgas.join(', ');
+    return zone.city ?? `All of ${zone.state}`;
+}
+
+/**
+ * The minimum spend for delivering to a zone; zones may set their own.
+ */
+export function getZoneMinimumOrder(store: Pick<Store, 'minimumOrderKobo'>, zone?: DeliveryZone): number {
+    return zone?.minimumOrderKobo ?? store.minimumOrderKobo;
+}
+
+/**
+ * Cheapest delivery fee on offer, used for "Delivery from ₦X".
+ */
+export function getLowestZoneFee(zones: DeliveryZone[]): number | undefined {
+    if (zones.length === 0) return undefined;
+    return Math.min(...zones.map((zone) => zone.feeKobo));
+}
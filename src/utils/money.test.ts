@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  add,
+  allocate,
+  fromMajor,
+  money,
+  multiply,
+  percentage,
+  percentageOfLines,
+  roundHalfEven,
+  subtract,
+  sum,
+  toMajor,
+} from './money';
+
+// Small seeded generator so property failures reproduce run to run
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T,>(values: T[]) => values[Math.floor(next() * values.length)],
+  };
+}
+
+const RUNS = 500;
+
+function forAll(check: (random: ReturnType<typeof createRandom>) => void) {
+  const random = createRandom(20260301);
+  for (let run = 0; run < RUNS; run++) check(random);
+}
+
+describe('roundHalfEven', () => {
+  it('sends exact halves to the even neighbour', () => {
+    expect([0.5, 1.5, 2.5, 3.5, -0.5, -1.5, -2.5].map(roundHalfEven)).toEqual([0, 2, 2, 4, 0, -2, -2]);
+  });
+
+  it('rounds everything else to the nearest integer', () => {
+    expect([2.4, 2.6, -2.4, -2.6].map(roundHalfEven)).toEqual([2, 3, -2, -3]);
+  });
+
+  it('treats float noise around a half as a half', () => {
+    // 10.245 * 100 is 1024.4999999999999 in floating point
+    expect(fromMajor(10.245).amount).toBe(1024);
+    expect(roundHalfEven(0.125 * 100 * 0.2)).toBe(2);
+  });
+
+  it('keeps large amounts just off a half off it', () => {
+    expect(roundHalfEven(40000000.525)).toBe(40000001);
+    expect(roundHalfEven(40000000.475)).toBe(40000000);
+    expect(roundHalfEven(40000000.5)).toBe(40000000);
+  });
+});
+
+describe('money', () => {
+  it('rejects fractional minor units', () => {
+    expect(() => money(10.5)).toThrow(/whole minor units/);
+  });
+
+  it('refuses to mix currencies', () => {
+    expect(() => add(money(100, 'NGN'), money(100, 'GHS'))).toThrow(/NGN with GHS/);
+  });
+
+  it('converts major amounts using the currency decimals', () => {
+    expect(fromMajor(19.99).amount).toBe(1999);
+    expect(fromMajor(1500, 'UGX').amount).toBe(1500);
+    expect(fromMajor(1.234, 'KWD').amount).toBe(1234);
+    expect(toMajor(money(1999))).toBe(19.99);
+  });
+});
+
+describe('money properties', () => {
+  it('keeps every result a whole number of minor units', () => {
+    forAll((random) => {
+      const value = money(random.int(-10_000_000, 10_000_000));
+      const percent = random.int(0, 10_000) / 100;
+      expect(Number.isInteger(percentage(value, percent).amount)).toBe(true);
+      expect(Number.isInteger(multiply(value, random.int(0, 1000) / 7).amount)).toBe(true);
+    });
+  });
+
+  it('rounds large amounts the same way as small ones', () => {
+    forAll((random) => {
+      const whole = random.int(0, 100_000_000_000);
+      const hundredths = random.int(1, 99);
+      const rounded = roundHalfEven(whole + hundredths / 100);
+      if (hundredths === 50) expect(rounded).toBe(whole % 2 === 0 ? whole : whole + 1);
+      else expect(rounded).toBe(hundredths > 50 ? whole + 1 : whole);
+    });
+  });
+
+  it('adds commutatively and subtracts back to where it started', () => {
+    forAll((random) => {
+      const a = money(random.int(-1_000_000, 1_000_000));
+      const b = money(random.int(-1_000_000, 1_000_000));
+      expect(add(a, b)).toEqual(add(b, a));
+      expect(subtract(add(a, b), b)).toEqual(a);
+    });
+  });
+
+  it('round-trips major amounts that fit the currency', () => {
+    forAll((random) => {
+      const currency = random.pick(['NGN', 'UGX', 'KWD']);
+      const value = money(random.int(0, 100_000_000), currency);
+      expect(fromMajor(toMajor(value), currency)).toEqual(value);
+    });
+  });
+
+  it('allocates without losing or inventing a minor unit', () => {
+    forAll((random) => {
+      const value = money(random.int(-1_000_000, 1_000_000));
+      const ratios = Array.from({ length: random.int(1, 8) }, () => random.int(0, 100));
+      if (!ratios.some((ratio) => ratio > 0)) ratios[0] = 1;
+      const shares = allocate(value, ratios);
+      expect(sum(shares).amount).toBe(value.amount);
+      expect(shares).toHaveLength(ratios.length);
+    });
+  });
+
+  it('splits evenly to within one minor unit', () => {
+    forAll((random) => {
+      const shares = allocate(money(random.int(0, 1_000_000)), Array(random.int(1, 12)).fill(1)).map((s) => s.amount);
+      expect(Math.max(...shares) - Math.min(...shares)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('keeps per-line and per-order rounding within half a unit per line', () => {
+    forAll((random) => {
+      const lines = Array.from({ length: random.int(1, 20) }, () => money(random.int(0, 5_000_000)));
+      const percent = random.pick([5, 7.5, 12.5, 15, 16, 18]);
+      const perLine = percentageOfLines(lines, percent, 'per-line').amount;
+      const perOrder = percentageOfLines(lines, percent, 'per-order').amount;
+      expect(Math.abs(perLine - perOrder)).toBeLessThanOrEqual(Math.ceil(lines.length / 2));
+    });
+  });
+});
+
+describe('percentageOfLines', () => {
+  it('can differ between policies, which is why the caller chooses', () => {
+    // Each line's 7.5% is 0.75 kobo: rounds to 1 per line, but 2.25 -> 2 on the order
+    const lines = [money(10), money(10), money(10)];
+    expect(percentageOfLines(lines, 7.5, 'per-line').amount).toBe(3);
+    expect(percentageOfLines(lines, 7.5, 'per-order').amount).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integer money: whole minor units (kobo, pesewas, cents) tagged with their currency.
+ *
+ * Prices arrive in naira and totals in kobo; mixing them in float maths leaves
+ * fractions of a kobo behind. Everything that can produce a fraction (a
+ * percentage, a multiplier, a split) goes through here and rounds half to even,
+ * so repeated rounding doesn't drift upwards. Whether that rounding happens on
+ * each line or once on the order total is the caller's explicit choice.
+ */
+import { DEFAULT_CURRENCY, getCurrencyDecimals } from './currency';
+
+export interface Money {
+    /** Whole minor units, never fractional */
+    readonly amount: number;
+    readonly currency: string;
+}
+
+/**
+ * per-line: round each line's share, then add them up (what a receipt shows line by line).
+ * per-order: add the lines up, then round once (closest to the exact figure).
+ */
+export type RoundingPolicy = 'per-line' | 'per-order';
+
+// Float products like 0.1 * 3 land a hair either side of a true half. The
+// margin is fixed so it can't grow wide enough to swallow a real fraction, like
+// the .525 in 40000000.525. Amounts large enough that floats are spaced wider
+// than this get a few units of that spacing instead.
+const HALF_TOLERANCE = 1e-9;
+
+/**
+ * Round to the nearest integer, with exact halves going to the even neighbour:
+ * 0.5 -> 0, 1.5 -> 2, 2.5 -> 2.
+ */
+export function roundHalfEven(value: number): number {
+    const floor = Math.floor(value);
+    const fraction = value - floor;
+    if (Math.abs(fraction - 0.5) <= Math.max(HALF_TOLERANCE, 4 * Number.EPSILON * Math.abs(value))) {
+        return floor % 2 === 0 ? floor : floor + 1;
+    }
+    return Math.round(value);
+}
+
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+    if (!Number.isSafeInteger(amount)) {
+        throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+    }
+    // Avoid -0 showing up as "-₦0"
+    return { amount: amount === 0 ? 0 : amount, currency: currency.toUpperCase() };
+}
+
+export function zero(currency: string = DEFAULT_CURRENCY): Money {
+    return money(0, currency);
+}
+
+/**
+ * A major-unit amount (a product price in naira) as money, e.g. 19.99 -> 1999 kobo.
+ */
+export function fromMajor(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+    return money(roundHalfEven(amount * 10 ** getCurrencyDecimals(currency)), currency);
+}
+
+export function toMajor(value: Money): number {
+    return value.amount / 10 ** getCurrencyDecimals(value.currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+    if (a.currency !== b.currency) {
+        throw new Error(`Can't combine ${a.currency} with ${b.currency}`);
+    }
+}
+
+export function add(first: Money, ...rest: Money[]): Money {
+    return rest.reduce((total, value) => {
+        assertSameCurrency(total, value);
+        return money(total.amount + value.amount, total.currency);
+    }, first);
+}
+
+export function subtract(a: Money, b: Money): Money {
+    assertSameCurrency(a, b);
+    return money(a.amount - b.amount, a.currency);
+}
+
+/** Total of a list, which may be empty */
+export function sum(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+    return values.length === 0 ? zero(currency) : add(values[0], ...values.slice(1));
+}
+
+export function min(a: Money, b: Money): Money {
+    assertSameCurrency(a, b);
+    return a.amount <= b.amount ? a : b;
+}
+
+export function multiply(value: Money, factor: number): Money {
+    return money(roundHalfEven(value.amount * factor), value.currency);
+}
+
+/**
+ * `percent`% of the amount, e.g. percentage(₦1,000, 7.5) -> ₦75.
+ */
+export function percentage(value: Money, percent: number): Money {
+    return money(roundHalfEven((value.amount * percent) / 100), value.currency);
+}
+
+/**
+ * The same percentage of several lines, rounded according to the policy.
+ */
+export function percentageOfLines(
+    lines: Money[],
+    percent: number,
+    policy: RoundingPolicy,
+    currency: string = DEFAULT_CURRENCY
+): Money {
+    if (policy === 'per-line') {
+        return sum(lines.map((line) => percentage(line, percent)), currency);
+    }
+    return percentage(sum(lines, currency), percent);
+}
+
+/**
+ * Split an amount by ratios without losing or inventing a minor unit: the
+ * shares always add back up to the original. Leftover units go to the shares
+ * with the largest remainders, earliest first on a tie.
+ */
+export function allocate(value: Money, ratios: number[]): Money[] {
+    const totalRatio = ratios.reduce((total, ratio) => total + ratio, 0);
+    if (ratios.length === 0 || totalRatio <= 0 || ratios.some((ratio) => ratio < 0)) {
+        throw new Error('Allocation needs at least one ratio, none negative, and a positive total');
+    }
+
+    const sign = value.amount < 0 ? -1 : 1;
+    const amount = Math.abs(value.amount);
+    const exact = ratios.map((ratio) => (amount * ratio) / totalRatio);
+    const shares = exact.map(Math.floor);
+    let leftover = amount - shares.reduce((total, share) => total + share, 0);
+
+    exact
+        .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+        .forEach(({ index }) => {
+            if (leftover <= 0) return;
+            shares[index] += 1;
+            leftover -= 1;
+        });
+
+    return shares.map((share) => money(sign * share, value.currency));
+}
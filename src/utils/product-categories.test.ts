@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { deriveCategoryFacets, fromCategorySlug, getCategoryPath, getVisibleFacets, toCategorySlug } from './product-categories';
+
+describe('category slugs', () => {
+  it('round-trips category codes through links', () => {
+    expect(toCategorySlug('FOOD_BEVERAGES')).toBe('food-beverages');
+    expect(fromCategorySlug('food-beverages')).toBe('FOOD_BEVERAGES');
+    expect(fromCategorySlug('Clothing')).toBe('CLOTHING');
+  });
+
+  it('builds store and category paths, keeping the query string', () => {
+    expect(getCategoryPath('mama-put')).toBe('/mama-put');
+    expect(getCategoryPath('mama-put', 'FOOD_BEVERAGES', '?q=zobo&sort=newest')).toBe('/mama-put/c/food-beverages?q=zobo&sort=newest');
+  });
+});
+
+describe('deriveCategoryFacets', () => {
+  it('lists each category once, alphabetically, without counts', () => {
+    expect(deriveCategoryFacets([
+      { category: 'FOOD_BEVERAGES', categoryDisplayName: 'Food & Beverages' },
+      { category: 'CLOTHING', categoryDisplayName: 'Clothing' },
+      { category: 'FOOD_BEVERAGES', categoryDisplayName: 'Food & Beverages' },
+    ] as never)).toEqual([
+      { category: 'CLOTHING', displayName: 'Clothing' },
+      { category: 'FOOD_BEVERAGES', displayName: 'Food & Beverages' },
+    ]);
+  });
+});
+
+describe('getVisibleFacets', () => {
+  it('drops empty categories and puts the busiest first', () => {
+    expect(getVisibleFacets([
+      { category: 'A', displayName: 'Apparel', count: 3 },
+      { category: 'B', displayName: 'Bags', count: 0 },
+      { category: 'C', displayName: 'Candles', count: 9 },
+    ]).map((facet) => facet.category)).toEqual(['C', 'A']);
+  });
+});
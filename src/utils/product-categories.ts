@@ -0,0 +1,51 @@
+/**
+ * Browsing a store by product category, at /:slug/c/:category.
+ *
+ * Category codes are upper snake case (FOOD_BEVERAGES); in links they become
+ * lower kebab case (food-beverages) so a merchant can share /mama-put/c/drinks.
+ */
+import type { Product, ProductCategoryFacet } from '@/types/product.types';
+
+export function toCategorySlug(category: string): string {
+    return category.trim().toLowerCase().replace(/[_\s]+/g, '-');
+}
+
+export function fromCategorySlug(slug: string): string {
+    return decodeURIComponent(slug).trim().toUpperCase().replace(/-+/g, '_');
+}
+
+/**
+ * Path to a store's products, in one category or all of them. The query
+ * string (search, price range, sort) is carried across unchanged.
+ */
+export function getCategoryPath(storeSlug: string, category?: string, search: string = ''): string {
+    const path = category ? `/${storeSlug}/c/${encodeURIComponent(toCategorySlug(category))}` : `/${storeSlug}`;
+    const query = search.replace(/^\?/, '');
+    return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Categories seen on products already loaded, for when the categories
+ * endpoint is unavailable. There are no counts: they would only cover the
+ * pages loaded so far.
+ */
+export function deriveCategoryFacets(products: Array<Pick<Product, 'category' | 'categoryDisplayName'>>): ProductCategoryFacet[] {
+    const byCategory = new Map<string, ProductCategoryFacet>();
+    products.forEach((product) => {
+        if (!product.category || byCategory.has(product.category)) return;
+        byCategory.set(product.category, {
+            category: product.category,
+            displayName: product.categoryDisplayName || product.category,
+        });
+    });
+    return Array.from(byCategory.values()).sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Empty categories are left off the rail; the busiest come first.
+ */
+export function getVisibleFacets(facets: ProductCategoryFacet[]): ProductCategoryFacet[] {
+    return facets
+        .filter((facet) => facet.count === undefined || facet.count > 0)
+        .sort((a, b) => (b.count ?? 0) - (a.count ?? 0) || a.displayName.localeCompare(b.displayName));
+}
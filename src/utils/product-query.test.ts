@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PRODUCT_FILTERS,
+  applyProductFilters,
+  fromFilterDraft,
+  hasActiveFilters,
+  isDraftInSync,
+  parseProductFilters,
+  toFilterDraft,
+  toProductSearchParams,
+} from './product-query';
+
+describe('parseProductFilters', () => {
+  it('reads every filter from the URL', () => {
+    const params = new URLSearchParams('q=rice&min=500&max=5000&inStock=1&sort=price-asc');
+    expect(parseProductFilters(params, 'FOOD')).toEqual({
+      search: 'rice',
+      category: 'FOOD',
+      minPrice: 500,
+      maxPrice: 5000,
+      inStock: true,
+      sort: 'price-asc',
+    });
+  });
+
+  it('ignores values it cannot use', () => {
+    const params = new URLSearchParams('min=abc&max=-5&sort=cheapest&inStock=yes');
+    expect(parseProductFilters(params)).toEqual({ ...DEFAULT_PRODUCT_FILTERS, minPrice: undefined, maxPrice: undefined });
+  });
+
+  it('puts a backwards price range the right way round', () => {
+    const filters = parseProductFilters(new URLSearchParams('min=5000&max=500'));
+    expect([filters.minPrice, filters.maxPrice]).toEqual([500, 5000]);
+  });
+});
+
+describe('applyProductFilters', () => {
+  it('round-trips through the URL', () => {
+    const filters = { search: 'rice', category: 'FOOD', minPrice: 0, maxPrice: 2500, inStock: true, sort: 'newest' as const };
+    expect(parseProductFilters(applyProductFilters(new URLSearchParams(), filters), 'FOOD')).toEqual(filters);
+  });
+
+  it('leaves the category to the path', () => {
+    const filters = { ...DEFAULT_PRODUCT_FILTERS, category: 'FOOD' };
+    expect(applyProductFilters(new URLSearchParams(), filters).toString()).toBe('');
+  });
+
+  it('drops defaults and keeps unrelated params', () => {
+    const params = new URLSearchParams('cart=abc&q=old&sort=newest');
+    expect(applyProductFilters(params, DEFAULT_PRODUCT_FILTERS).toString()).toBe('cart=abc');
+  });
+});
+
+describe('toProductSearchParams', () => {
+  it('maps the sort to the API field and omits empty filters', () => {
+    expect(toProductSearchParams({ ...DEFAULT_PRODUCT_FILTERS, search: '  rice ', sort: 'price-desc' })).toEqual({
+      search: 'rice',
+      category: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      inStock: undefined,
+      sort: 'unitPrice,desc',
+    });
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('does not count the sort as a filter', () => {
+    expect(hasActiveFilters({ ...DEFAULT_PRODUCT_FILTERS, sort: 'newest' })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_PRODUCT_FILTERS, minPrice: 0 })).toBe(true);
+  });
+});
+
+describe('filter drafts', () => {
+  it('treats what was typed as in sync when it means the same thing', () => {
+    const filters = { ...DEFAULT_PRODUCT_FILTERS, search: 'rice', minPrice: 500 };
+    expect(isDraftInSync({ search: 'rice ', minPrice: '500', maxPrice: '' }, filters)).toBe(true);
+    expect(isDraftInSync({ search: 'rice c', minPrice: '500', maxPrice: '' }, filters)).toBe(false);
+  });
+
+  it('round-trips the filters through the inputs', () => {
+    const filters = { ...DEFAULT_PRODUCT_FILTERS, search: 'rice', minPrice: 0, maxPrice: 2500 };
+    expect(fromFilterDraft(toFilterDraft(filters))).toEqual({ search: 'rice', minPrice: 0, maxPrice: 2500 });
+  });
+});
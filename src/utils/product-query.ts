@@ -0,0 +1,161 @@
+/**
+ * Storefront catalogue filters, kept in the URL so a search can be shared or
+ * bookmarked: /shop/c/food?q=rice&min=500&max=5000&inStock=1&sort=price-asc
+ *
+ * The category is part of the path (see product-categories); everything else
+ * is in the query string.
+ *
+ * Filtering and sorting happen on the server; this module only translates
+ * between URL params, the filter controls and the products API.
+ */
+import type { ProductSearchParams } from '@/types/product.types';
+
+export type ProductSort = 'default' | 'price-asc' | 'price-desc' | 'newest' | 'name-asc';
+
+export interface ProductFilters {
+    search: string;
+    category: string;
+    /** Naira; undefined when unbounded */
+    minPrice?: number;
+    maxPrice?: number;
+    inStock: boolean;
+    sort: ProductSort;
+}
+
+export const PRODUCT_SORT_OPTIONS: Array<{ value: ProductSort; label: string }> = [
+    { value: 'default', label: 'Default' },
+    { value: 'price-asc', label: 'Price: Low to High' },
+    { value: 'price-desc', label: 'Price: High to Low' },
+    { value: 'newest', label: 'Newest First' },
+    { value: 'name-asc', label: 'Name: A to Z' },
+];
+
+const SORT_FIELDS: Record<Exclude<ProductSort, 'default'>, string> = {
+    'price-asc': 'unitPrice,asc',
+    'price-desc': 'unitPrice,desc',
+    newest: 'createdAt,desc',
+    'name-asc': 'name,asc',
+};
+
+// URL param names; short so shared links stay readable
+const PARAM = {
+    search: 'q',
+    minPrice: 'min',
+    maxPrice: 'max',
+    inStock: 'inStock',
+    sort: 'sort',
+} as const;
+
+export const DEFAULT_PRODUCT_FILTERS: ProductFilters = {
+    search: '',
+    category: '',
+    inStock: false,
+    sort: 'default',
+};
+
+function parsePrice(value: string | null): number | undefined {
+    if (value === null || value.trim() === '') return undefined;
+    const price = Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+function isProductSort(value: string | null): value is ProductSort {
+    return PRODUCT_SORT_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Read the filters from the query string. The category comes from the route,
+ * so the caller passes it in.
+ */
+export function parseProductFilters(params: URLSearchParams, category: string = ''): ProductFilters {
+    const sort = params.get(PARAM.sort);
+    let minPrice = parsePrice(params.get(PARAM.minPrice));
+    let maxPrice = parsePrice(params.get(PARAM.maxPrice));
+    // A hand-edited link with the range backwards still means "between these two"
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+        [minPrice, maxPrice] = [maxPrice, minPrice];
+    }
+
+    return {
+        search: params.get(PARAM.search)?.trim() ?? '',
+        category,
+        minPrice,
+        maxPrice,
+        inStock: params.get(PARAM.inStock) === '1',
+        sort: isProductSort(sort) ? sort : 'default',
+    };
+}
+
+/**
+ * Write the filters into the params, dropping defaults so the URL stays short.
+ * Unrelated params (a shared cart, a payment reference) are left alone, and
+ * the category is not written: it belongs in the path.
+ */
+export function applyProductFilters(params: URLSearchParams, filters: ProductFilters): URLSearchParams {
+    const next = new URLSearchParams(params);
+    const set = (key: string, value: string | undefined) => {
+        if (value) next.set(key, value);
+        else next.delete(key);
+    };
+
+    set(PARAM.search, filters.search.trim());
+    set(PARAM.minPrice, filters.minPrice?.toString());
+    set(PARAM.maxPrice, filters.maxPrice?.toString());
+    set(PARAM.inStock, filters.inStock ? '1' : undefined);
+    set(PARAM.sort, filters.sort === 'default' ? undefined : filters.sort);
+    return next;
+}
+
+export function toProductSearchParams(filters: ProductFilters): ProductSearchParams {
+    return {
+        search: filters.search.trim() || undefined,
+        category: filters.category || undefined,
+        minPrice: filters.minPrice,
+        maxPrice: filters.maxPrice,
+        inStock: filters.inStock || undefined,
+        sort: filters.sort === 'default' ? undefined : SORT_FIELDS[filters.sort],
+    };
+}
+
+export function hasActiveFilters(filters: ProductFilters): boolean {
+    return !!filters.search
+        || !!filters.category
+        || filters.minPrice !== undefined
+        || filters.maxPrice !== undefined
+        || filters.inStock;
+}
+
+/** The free-text controls exactly as typed, before they are debounced into the URL */
+export interface ProductFilterDraft {
+    search: string;
+    minPrice: string;
+    maxPrice: string;
+}
+
+export function toFilterDraft(filters: ProductFilters): ProductFilterDraft {
+    return {
+        search: filters.search,
+        minPrice: filters.minPrice?.toString() ?? '',
+        maxPrice: filters.maxPrice?.toString() ?? '',
+    };
+}
+
+export function fromFilterDraft(draft: ProductFilterDraft): Pick<ProductFilters, 'search' | 'minPrice' | 'maxPrice'> {
+    return {
+        search: draft.search.trim(),
+        minPrice: parsePrice(draft.minPrice),
+        maxPrice: parsePrice(draft.maxPrice),
+    };
+}
+
+/**
+ * Whether the typed values already mean what the URL says, so a URL change
+ * (back button, shared link) only overwrites the inputs when they disagree.
+ * Keeps "rice " from losing its trailing space mid-word.
+ */
+export function isDraftInSync(draft: ProductFilterDraft, filters: ProductFilters): boolean {
+    const typed = fromFilterDraft(draft);
+    return typed.search === filters.search
+        && typed.minPrice === filters.minPrice
+        && typed.maxPrice === filters.maxPrice;
+}
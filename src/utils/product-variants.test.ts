@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyVariant,
+  findVariant,
+  getDefaultSelection,
+  getVariantLabel,
+  getVariantProduct,
+  isOptionValueAvailable,
+  toCartItem,
+} from './product-variants';
+import { ProductCategory } from '@/types/enums';
+import type { Product, ProductVariant } from '@/types/product.types';
+
+const variant = (id: string, colour: string, size: string, overrides: Partial<ProductVariant> = {}): ProductVariant => ({
+  id,
+  options: { Colour: colour, Size: size },
+  stockQuantity: 5,
+  outOfStock: false,
+  active: true,
+  ...overrides,
+});
+
+const shirt: Product = {
+  id: 'shirt',
+  name: 'Ankara Shirt',
+  slug: 'ankara-shirt',
+  sku: 'SHIRT',
+  category: ProductCategory.OTHER,
+  categoryDisplayName: 'Fashion',
+  unitPrice: 10000,
+  priceWithVat: 10750,
+  unit: 'piece',
+  stockQuantity: 15,
+  reorderLevel: 2,
+  taxable: true,
+  vatRate: 7.5,
+  active: true,
+  lowStock: false,
+  outOfStock: false,
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+  options: [
+    { name: 'Colour', values: ['Red', 'Blue'] },
+    { name: 'Size', values: ['M', 'L'] },
+  ],
+  variants: [
+    variant('red-m', 'Red', 'M', { stockQuantity: 0, outOfStock: true }),
+    variant('red-l', 'Red', 'L', { unitPrice: 12000, sku: 'SHIRT-RED-L', imageUrl: 'red.jpg' }),
+    variant('blue-m', 'Blue', 'M'),
+  ],
+};
+
+describe('findVariant', () => {
+  it('finds the variant for a complete selection', () => {
+    expect(findVariant(shirt, { Colour: 'Blue', Size: 'M' })?.id).toBe('blue-m');
+  });
+
+  it('returns nothing until every axis is chosen', () => {
+    expect(findVariant(shirt, { Colour: 'Blue' })).toBeUndefined();
+  });
+
+  it('returns nothing for a combination that does not exist', () => {
+    expect(findVariant(shirt, { Colour: 'Blue', Size: 'L' })).toBeUndefined();
+  });
+});
+
+describe('getDefaultSelection', () => {
+  it('skips sold-out variants', () => {
+    expect(getDefaultSelection(shirt)).toEqual({ Colour: 'Red', Size: 'L' });
+  });
+});
+
+describe('isOptionValueAvailable', () => {
+  it('checks the value against the other choices', () => {
+    expect(isOptionValueAvailable(shirt, { Colour: 'Red', Size: 'L' }, 'Size', 'M')).toBe(false);
+    expect(isOptionValueAvailable(shirt, { Colour: 'Blue', Size: 'M' }, 'Size', 'M')).toBe(true);
+    expect(isOptionValueAvailable(shirt, { Colour: 'Red', Size: 'L' }, 'Colour', 'Blue')).toBe(false);
+  });
+});
+
+describe('getVariantLabel', () => {
+  it('lists values in option order', () => {
+    expect(getVariantLabel(variant('x', 'Red', 'L'), shirt.options)).toBe('Red / L');
+  });
+});
+
+describe('applyVariant', () => {
+  it('uses the variant price, SKU, stock and image', () => {
+    const applied = applyVariant(shirt, shirt.variants![1]);
+    expect(applied.id).toBe('shirt');
+    expect(applied.unitPrice).toBe(12000);
+    expect(applied.priceWithVat).toBe(12900);
+    expect(applied.sku).toBe('SHIRT-RED-L');
+    expect(applied.stockQuantity).toBe(5);
+    expect(applied.imageUrl).toBe('red.jpg');
+  });
+
+  it('falls back to the product price', () => {
+    const applied = applyVariant(shirt, shirt.variants![2]);
+    expect(applied.unitPrice).toBe(10000);
+    expect(applied.priceWithVat).toBe(10750);
+  });
+});
+
+describe('getVariantProduct', () => {
+  it('returns null for a variant that no longer exists', () => {
+    expect(getVariantProduct(shirt, 'gone')).toBeNull();
+    expect(getVariantProduct(shirt)).toBe(shirt);
+  });
+});
+
+describe('toCartItem', () => {
+  it('carries the variant on the line', () => {
+    const item = toCartItem(shirt, shirt.variants![1], 2);
+    expect(item).toMatchObject({ productId: 'shirt', variantId: 'red-l', variantLabel: 'Red / L', quantity: 2 });
+    expect(item.product.unitPrice).toBe(12000);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Product variants: picking a variant from option values and turning it into
+ * the price, stock and image the customer is actually buying.
+ */
+import type { NewCartItem } from '@/services/api/public-store.api';
+import type { Product, ProductVariant } from '@/types/product.types';
+import { fromMajor, percentage, toMajor } from './money';
+
+/** Chosen value per option axis, keyed by option name */
+export type VariantSelection = Record<string, string>;
+
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+    return !!product.variants && product.variants.length > 0;
+}
+
+function isBuyable(variant: ProductVariant): boolean {
+    return variant.active && !variant.outOfStock && variant.stockQuantity > 0;
+}
+
+function matches(variant: ProductVariant, selection: VariantSelection): boolean {
+    return Object.entries(selection).every(([axis, value]) => variant.options[axis] === value);
+}
+
+/**
+ * The variant chosen by a full selection, if every axis has a value and that combination exists.
+ */
+export function findVariant(product: Product, selection: VariantSelection): ProductVariant | undefined {
+    const axes = product.options ?? [];
+    if (axes.some((option) => !selection[option.name])) return undefined;
+    return product.variants?.find((variant) => variant.active && matches(variant, selection));
+}
+
+/**
+ * Start on the first variant that can be bought, so the page never opens on a sold-out choice.
+ */
+export function getDefaultSelection(product: Product): VariantSelection {
+    const variants = (product.variants ?? []).filter((variant) => variant.active);
+    const variant = variants.find(isBuyable) ?? variants[0];
+    return variant ? { ...variant.options } : {};
+}
+
+/**
+ * Whether picking `value` on `axis`, keeping the other choices, leads to something in stock.
+ */
+export function isOptionValueAvailable(
+    product: Product,
+    selection: VariantSelection,
+    axis: string,
+    value: string
+): boolean {
+    const next = { ...selection, [axis]: value };
+    return (product.variants ?? []).some((variant) => isBuyable(variant) && matches(variant, next));
+}
+
+/**
+ * "Red / M" — values in the product's option order.
+ */
+export function getVariantLabel(variant: ProductVariant, options: Product['options'] = []): string {
+    const axes = options.length > 0 ? options.map((option) => option.name) : Object.keys(variant.options);
+    return axes
+        .map((axis) => variant.options[axis])
+        .filter(Boolean)
+        .join(' / ');
+}
+
+/**
+ * The product as seen through one variant: its own SKU, price, stock and image where set.
+ */
+export function applyVariant(product: Product, variant: ProductVariant): Product {
+    const unitPrice = variant.unitPrice ?? product.unitPrice;
+    const vatPercent = product.taxable ? product.vatRate : 0;
+    const priceWithVat = variant.priceWithVat
+        ?? (variant.unitPrice !== undefined
+            ? toMajor(percentage(fromMajor(unitPrice), 100 + vatPercent))
+            : product.priceWithVat);
+
+    return {
+        ...product,
+        sku: variant.sku ?? product.sku,
+        unitPrice,
+        priceWithVat,
+        stockQuantity: variant.stockQuantity,
+        outOfStock: variant.outOfStock,
+        lowStock: variant.stockQuantity <= product.reorderLevel,
+        active: product.active && variant.active,
+        imageUrl: variant.imageUrl ?? product.imageUrl,
+        // The product's "was" price only makes sense against the product's own price
+        compareAtPrice: variant.compareAtPrice ?? (variant.unitPrice === undefined ? product.compareAtPrice : undefined),
+    };
+}
+
+/**
+ * Live data for a cart line: the variant applied when there is one.
+ * Returns null when the variant has been removed from the product.
+ */
+export function getVariantProduct(product: Product, variantId?: string): Product | null {
+    if (!variantId) return product;
+    const variant = product.variants?.find((v) => v.id === variantId);
+    return variant ? applyVariant(product, variant) : null;
+}
+
+export function toCartItem(product: Product, variant: ProductVariant | undefined, quantity: number): NewCartItem {
+    if (!variant) {
+        return { productId: product.id, product, quantity };
+    }
+    return {
+        productId: product.id,
+        variantId: variant.id,
+        variantLabel: getVariantLabel(variant, product.options),
+        product: applyVariant(product, variant),
+        quantity,
+    };
+}
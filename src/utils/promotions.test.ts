@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { describePromotion, getActivePromotions, getDisplayPrice } from './promotions';
+import { PromotionType } from '@/types/store.types';
+import type { Promotion } from '@/types/store.types';
+
+const NOW = new Date('2026-03-04T12:00:00Z');
+
+const window = { active: true, productIds: ['malt'] };
+const quantityBreak: Promotion = {
+  ...window,
+  id: 'crate',
+  name: 'Crate discount',
+  type: PromotionType.QUANTITY_BREAK,
+  tiers: [{ minQuantity: 6, percentOff: 10 }, { minQuantity: 12, percentOff: 15 }],
+};
+const bundle: Promotion = { ...window, id: 'three', name: 'Three for two', type: PromotionType.BUNDLE, quantity: 3, bundlePriceKobo: 100000 };
+const bogo: Promotion = {
+  ...window,
+  id: 'bogo',
+  name: 'BOGO',
+  type: PromotionType.BUY_X_GET_Y,
+  buyQuantity: 1,
+  getQuantity: 1,
+  percentOff: 100,
+};
+
+describe('getDisplayPrice', () => {
+  it('strikes through the compare-at price', () => {
+    expect(getDisplayPrice({ unitPrice: 800, compareAtPrice: 1000 }, NOW)).toEqual({ price: 800, compareAt: 1000, saving: 200 });
+    expect(getDisplayPrice({ unitPrice: 800, compareAtPrice: 700 }, NOW)).toEqual({ price: 800 });
+  });
+
+  it('applies a sale only inside its window', () => {
+    const sale = { percentOff: 25, startsAt: '2026-03-01T00:00:00Z', endsAt: '2026-03-08T00:00:00Z' };
+    expect(getDisplayPrice({ unitPrice: 1000, sale }, NOW)).toEqual({ price: 750, compareAt: 1000, saving: 250 });
+    expect(getDisplayPrice({ unitPrice: 1000, sale }, new Date('2026-03-08T00:00:00Z'))).toEqual({ price: 1000 });
+  });
+});
+
+describe('getActivePromotions', () => {
+  it('lists running promotions for the product', () => {
+    expect(getActivePromotions([quantityBreak, bundle, bogo], 'malt', NOW).map((p) => p.id)).toEqual(['crate', 'three', 'bogo']);
+  });
+
+  it('ignores promotions that are paused, expired or for other products', () => {
+    const promotions: Promotion[] = [
+      { ...bogo, active: false },
+      { ...bogo, endsAt: '2026-03-01T00:00:00Z' },
+      { ...bogo, productIds: ['zobo'] },
+    ];
+    expect(getActivePromotions(promotions, 'malt', NOW)).toEqual([]);
+  });
+});
+
+describe('describePromotion', () => {
+  it('summarises each kind for a badge', () => {
+    expect(describePromotion(quantityBreak)).toBe('10% off 6+');
+    expect(describePromotion(bundle)).toMatch(/^3 for ₦1,000$/);
+    expect(describePromotion({ ...bogo, percentOff: 50 } as Promotion)).toBe('Buy 1, get 1 at 50% off');
+  });
+
+  it('prices bundles in the store currency', () => {
+    expect(describePromotion(bundle, 'GHS')).toBe('3 for GH₵1,000');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Automatic promotions: sale prices, quantity breaks, bundles and buy-X-get-Y.
+ *
+ * These are for showing prices and offers on the shelf. What a cart line
+ * actually gets off is worked out by the server with each cart quote.
+ */
+import type { Product, ProductSale } from '@/types/product.types';
+import type { Promotion } from '@/types/store.types';
+import { PromotionType } from '@/types/store.types';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+import { fromMajor, percentage, subtract, toMajor } from './money';
+
+export interface DisplayPrice {
+    /** What the customer pays now, in naira */
+    price: number;
+    /** The struck-through price, when there is one */
+    compareAt?: number;
+    saving?: number;
+}
+
+export function isWithinWindow(window: { startsAt?: string; endsAt?: string }, now: Date = new Date()): boolean {
+    const time = now.getTime();
+    if (window.startsAt && time < new Date(window.startsAt).getTime()) return false;
+    if (window.endsAt && time >= new Date(window.endsAt).getTime()) return false;
+    return true;
+}
+
+export function isSaleActive(sale: ProductSale | undefined, now: Date = new Date()): sale is ProductSale {
+    return !!sale && sale.percentOff > 0 && isWithinWindow(sale, now);
+}
+
+/**
+ * Selling price with any running sale applied, and the higher price to strike through.
+ */
+export function getDisplayPrice(
+    product: Pick<Product, 'unitPrice' | 'compareAtPrice' | 'sale'>,
+    now: Date = new Date(),
+    currency: string = DEFAULT_CURRENCY
+): DisplayPrice {
+    const regular = fromMajor(product.unitPrice, currency);
+    const price = isSaleActive(product.sale, now)
+        ? percentage(regular, 100 - product.sale.percentOff)
+        : regular;
+    const compareAt = fromMajor(Math.max(product.compareAtPrice ?? 0, product.unitPrice), currency);
+    if (compareAt.amount <= price.amount) return { price: toMajor(price) };
+    return { price: toMajor(price), compareAt: toMajor(compareAt), saving: toMajor(subtract(compareAt, price)) };
+}
+
+export function getActivePromotions(
+    promotions: Promotion[] | undefined,
+    productId: string,
+    now: Date = new Date()
+): Promotion[] {
+    return (promotions ?? []).filter(
+        (promotion) => promotion.active && promotion.productIds.includes(productId) && isWithinWindow(promotion, now)
+    );
+}
+
+/**
+ * Short badge text: "10% off 5+", "3 for ₦1,000", "Buy 2, get 1 free".
+ */
+export function describePromotion(promotion: Promotion, currency: string = DEFAULT_CURRENCY): string {
+    switch (promotion.type) {
+        case PromotionType.QUANTITY_BREAK: {
+            const first = [...promotion.tiers].sort((a, b) => a.minQuantity - b.minQuantity)[0];
+            return first ? `${first.percentOff}% off ${first.minQuantity}+` : promotion.name;
+        }
+        case PromotionType.BUNDLE:
+            return `${promotion.quantity} for ${formatMoney(promotion.bundlePriceKobo, currency)}`;
+        case PromotionType.BUY_X_GET_Y:
+            return promotion.percentOff >= 100
+                ? `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} free`
+                : `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} at ${promotion.percentOff}% off`;
+    }
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { getScrollPosition, saveScrollPosition } from './scroll-positions';
+
+describe('scroll positions', () => {
+  it('returns what was saved for the same history entry', () => {
+    saveScrollPosition('entry-a', 1200);
+    expect(getScrollPosition('entry-a')).toBe(1200);
+    expect(getScrollPosition('entry-b')).toBeUndefined();
+  });
+
+  it('keeps only the most recent entries', () => {
+    for (let i = 0; i < 21; i++) saveScrollPosition(`page-${i}`, i);
+    // Saving again counts as recent use
+    saveScrollPosition('page-1', 100);
+    saveScrollPosition('page-21', 21);
+
+    expect(getScrollPosition('page-0')).toBeUndefined();
+    expect(getScrollPosition('page-2')).toBeUndefined();
+    expect(getScrollPosition('page-1')).toBe(100);
+    expect(getScrollPosition('page-21')).toBe(21);
+  });
+});
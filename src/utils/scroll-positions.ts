@@ -0,0 +1,26 @@
+/**
+ * How far down the storefront the customer had scrolled, so coming back from
+ * a product page puts them where they were. The products themselves come
+ * back from the query cache.
+ *
+ * Keyed by history entry (react-router's location.key): Back returns to the
+ * same entry, while following a link to the store starts at the top.
+ */
+
+// Plenty for back-and-forth between a few searches; older entries are dropped
+const MAX_POSITIONS = 20;
+
+const positions = new Map<string, number>();
+
+export function saveScrollPosition(key: string, scrollY: number): void {
+    positions.delete(key);
+    positions.set(key, scrollY);
+    while (positions.size > MAX_POSITIONS) {
+        const oldest = positions.keys().next().value as string;
+        positions.delete(oldest);
+    }
+}
+
+export function getScrollPosition(key: string): number | undefined {
+    return positions.get(key);
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeSlots, formatOrderTimeSlot, getTimeSlotWindow, groupTimeSlotsByDay } from './time-slots';
+import type { Store } from '@/types/store.types';
+
+const lagos = (iso: string) => new Date(`${iso}+01:00`);
+
+// 2026-03-04 is a Wednesday
+const store: Pick<Store, 'businessHours' | 'timeSlots'> = {
+  businessHours: {
+    wednesday: { open: '09:00', close: '12:00' },
+    thursday: { open: '09:00', close: '11:00' },
+  },
+  timeSlots: { enabled: true, slotMinutes: 60, leadTimeMinutes: 45, capacity: 2, daysAhead: 2 },
+};
+
+describe('buildTimeSlots', () => {
+  it('cuts the opening hours into slots for each bookable day', () => {
+    const slots = buildTimeSlots(store, lagos('2026-03-04T07:00:00'));
+    expect(slots.map((slot) => `${slot.day} ${slot.label}`)).toEqual([
+      'wednesday 9:00 AM – 10:00 AM',
+      'wednesday 10:00 AM – 11:00 AM',
+      'wednesday 11:00 AM – 12:00 PM',
+      'thursday 9:00 AM – 10:00 AM',
+      'thursday 10:00 AM – 11:00 AM',
+    ]);
+    expect(slots[0]).toMatchObject({ start: '2026-03-04T08:00:00.000Z', end: '2026-03-04T09:00:00.000Z', dayOffset: 0 });
+  });
+
+  it('blocks slots inside the preparation lead time', () => {
+    const slots = buildTimeSlots(store, lagos('2026-03-04T09:30:00'));
+    expect(slots.slice(0, 3).map((slot) => slot.unavailableReason)).toEqual(['TOO_SOON', 'TOO_SOON', undefined]);
+  });
+
+  it('blocks slots that are fully booked', () => {
+    const slots = buildTimeSlots(store, lagos('2026-03-04T07:00:00'), [
+      { start: '2026-03-04T08:00:00.000Z', booked: 2 },
+      { start: '2026-03-04T09:00:00.000Z', booked: 1 },
+    ]);
+    expect(slots[0]).toMatchObject({ available: false, unavailableReason: 'FULL', remaining: 0 });
+    expect(slots[1]).toMatchObject({ available: true, remaining: 1 });
+  });
+
+  it('follows overnight hours past midnight', () => {
+    const lateNight = { ...store, businessHours: { tuesday: { open: '22:00', close: '02:00' } } };
+    const slots = buildTimeSlots(lateNight, lagos('2026-03-04T00:10:00'));
+    expect(slots.map((slot) => slot.label)).toEqual(['12:00 AM – 1:00 AM', '1:00 AM – 2:00 AM']);
+    expect(slots[1].available).toBe(true);
+  });
+
+  it('offers nothing when slots are switched off', () => {
+    const off = { ...store, timeSlots: { ...store.timeSlots!, enabled: false } };
+    expect(buildTimeSlots(off, lagos('2026-03-04T07:00:00'))).toEqual([]);
+  });
+});
+
+describe('getTimeSlotWindow', () => {
+  it('spans from the start of today to the end of the last day', () => {
+    expect(getTimeSlotWindow(store, lagos('2026-03-04T15:20:00'))).toEqual({
+      from: '2026-03-03T23:00:00.000Z',
+      to: '2026-03-05T23:00:00.000Z',
+    });
+  });
+});
+
+describe('groupTimeSlotsByDay', () => {
+  it('drops days with nothing left to book', () => {
+    const days = groupTimeSlotsByDay(buildTimeSlots(store, lagos('2026-03-04T11:30:00')));
+    expect(days.map((day) => day.label)).toEqual(['Tomorrow']);
+  });
+});
+
+describe('formatOrderTimeSlot', () => {
+  it('shows the slot on the store clock', () => {
+    const label = formatOrderTimeSlot({ start: '2026-03-05T08:00:00.000Z', end: '2026-03-05T09:00:00.000Z' }, 'Africa/Lagos');
+    expect(label).toMatch(/^Thursday.*9:00.*10:00/);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Pickup and delivery time slots, cut from the store's business hours.
+ *
+ * Slots are laid out on the store's clock. A slot can't be booked if it starts
+ * before the preparation lead time is up or if it already holds as many orders
+ * as the store allows.
+ */
+import type { OrderTimeSlot, Store, TimeSlotBooking } from '@/types/store.types';
+import type { DayKey } from './business-hours';
+import {
+    DEFAULT_STORE_TIMEZONE,
+    formatDayName,
+    formatTime,
+    getStoreTimeZone,
+    getZonedTime,
+    normalizeBusinessHours,
+    toMinutes,
+    toTime,
+} from './business-hours';
+
+export type TimeSlotUnavailableReason = 'TOO_SOON' | 'FULL';
+
+export interface TimeSlot extends OrderTimeSlot {
+    day: DayKey;
+    /** Days from today on the store's clock */
+    dayOffset: number;
+    /** e.g. "9:00 AM – 10:00 AM" */
+    label: string;
+    available: boolean;
+    unavailableReason?: TimeSlotUnavailableReason;
+    /** Orders the slot can still take, when the store caps it */
+    remaining?: number;
+}
+
+export interface TimeSlotDay {
+    dayOffset: number;
+    label: string;
+    slots: TimeSlot[];
+}
+
+type SlotStore = Pick<Store, 'businessHours' | 'timezone' | 'timeSlots'>;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function usesTimeSlots(store: Pick<Store, 'timeSlots'>): boolean {
+    const settings = store.timeSlots;
+    return !!settings?.enabled && settings.slotMinutes > 0 && settings.daysAhead > 0;
+}
+
+// Store-local midnight at the start of today, as epoch ms
+function getTodayStart(now: Date, timeZone: string): number {
+    const flooredNow = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    return flooredNow - getZonedTime(now, timeZone).minutes * MINUTE_MS;
+}
+
+/**
+ * The span bookings need to be fetched for: today's start to the end of the last bookable day.
+ */
+export function getTimeSlotWindow(store: SlotStore, now: Date = new Date()): { from: string; to: string } {
+    const todayStart = getTodayStart(now, getStoreTimeZone(store));
+    const days = store.timeSlots?.daysAhead ?? 0;
+    return {
+        from: new Date(todayStart).toISOString(),
+        to: new Date(todayStart + days * DAY_MS).toISOString(),
+    };
+}
+
+export function buildTimeSlots(store: SlotStore, now: Date = new Date(), bookings: TimeSlotBooking[] = []): TimeSlot[] {
+    const settings = store.timeSlots;
+    if (!settings || !usesTimeSlots(store)) return [];
+
+    const timeZone = getStoreTimeZone(store);
+    const hours = normalizeBusinessHours(store.businessHours);
+    const todayStart = getTodayStart(now, timeZone);
+    const windowEnd = todayStart + settings.daysAhead * DAY_MS;
+    const earliestStart = now.getTime() + settings.leadTimeMinutes * MINUTE_MS;
+    const booked = new Map(bookings.map((booking) => [new Date(booking.start).getTime(), booking.booked]));
+    const slots: TimeSlot[] = [];
+
+    // Start from yesterday so an overnight range spilling into today is included
+    for (let offset = -1; offset < settings.daysAhead; offset++) {
+        const dayStart = todayStart + offset * DAY_MS;
+        // Read the weekday at noon, clear of any daylight-saving shift
+        const day = getZonedTime(new Date(dayStart + DAY_MS / 2), timeZone).day;
+        const dayHours = hours[day];
+        if (!dayHours) continue;
+
+        const open = toMinutes(dayHours.open);
+        const close = toMinutes(dayHours.close);
+        const end = close > open ? close : close + 24 * 60;
+
+        for (let minute = open; minute + settings.slotMinutes <= end; minute += settings.slotMinutes) {
+            const start = dayStart + minute * MINUTE_MS;
+            if (start < todayStart || start >= windowEnd) continue;
+
+            const bookedCount = booked.get(start) ?? 0;
+            const remaining = settings.capacity !== undefined ? Math.max(settings.capacity - bookedCount, 0) : undefined;
+            const unavailableReason: TimeSlotUnavailableReason | undefined = start < earliestStart
+                ? 'TOO_SOON'
+                : remaining === 0 ? 'FULL' : undefined;
+            const slotEnd = minute + settings.slotMinutes;
+
+            slots.push({
+                start: new Date(start).toISOString(),
+                end: new Date(start + settings.slotMinutes * MINUTE_MS).toISOString(),
+                day: getZonedTime(new Date(start), timeZone).day,
+                dayOffset: Math.floor((start - todayStart) / DAY_MS),
+                label: `${formatTime(toTime(minute % (24 * 60)))} – ${formatTime(toTime(slotEnd % (24 * 60)))}`,
+                available: !unavailableReason,
+                unavailableReason,
+                remaining,
+            });
+        }
+    }
+
+    return slots.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function formatSlotDay(dayOffset: number, day: DayKey): string {
+    if (dayOffset === 0) return 'Today';
+    if (dayOffset === 1) return 'Tomorrow';
+    return formatDayName(day);
+}
+
+/**
+ * Slots grouped by day, leaving out days where nothing can be booked.
+ */
+export function groupTimeSlotsByDay(slots: TimeSlot[]): TimeSlotDay[] {
+    const days = new Map<number, TimeSlotDay>();
+    slots.forEach((slot) => {
+        const group = days.get(slot.dayOffset)
+            ?? { dayOffset: slot.dayOffset, label: formatSlotDay(slot.dayOffset, slot.day), slots: [] };
+        group.slots.push(slot);
+        days.set(slot.dayOffset, group);
+    });
+    return Array.from(days.values()).filter((group) => group.slots.some((slot) => slot.available));
+}
+
+/**
+ * A booked slot on the store's clock, e.g. "Thursday 5 Mar, 9:00 AM – 10:00 AM".
+ */
+export function formatOrderTimeSlot(slot: OrderTimeSlot, timeZone: string = DEFAULT_STORE_TIMEZONE): string {
+    const day = new Date(slot.start).toLocaleDateString('en-NG', { timeZone, weekday: 'long', day: 'numeric', month: 'short' });
+    const time = (iso: string) => new Date(iso).toLocaleTimeString('en-NG', { timeZone, hour: 'numeric', minute: '2-digit' });
+    return `${day}, ${time(slot.start)} – ${time(slot.end)}`;
+}
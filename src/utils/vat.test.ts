@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { TaxDisplayMode } from '@/types/store.types';
+import {
+  describeVat,
+  getTaxDisplayMode,
+  getVatBreakdown,
+  getVatSummary,
+  toShelfPrice,
+  toShelfPriceKobo,
+  withShelfPrices,
+} from './vat';
+
+const taxed = { taxable: true, vatRate: 7.5, unitPrice: 1000, compareAtPrice: 1200 };
+const exempt = { taxable: false, vatRate: 7.5, unitPrice: 1000 };
+
+describe('shelf prices', () => {
+  it('shows prices ex-VAT unless the store says otherwise', () => {
+    expect(getTaxDisplayMode({})).toBe(TaxDisplayMode.EXCLUSIVE);
+    expect(toShelfPrice(1000, taxed, TaxDisplayMode.EXCLUSIVE)).toBe(1000);
+  });
+
+  it('adds the VAT for inclusive stores, to the kobo', () => {
+    expect(toShelfPrice(999.99, taxed, TaxDisplayMode.INCLUSIVE)).toBe(1074.99);
+    expect(toShelfPriceKobo(99999, 7.5, TaxDisplayMode.INCLUSIVE)).toBe(107499);
+  });
+
+  it('leaves untaxed products alone', () => {
+    expect(toShelfPrice(1000, exempt, TaxDisplayMode.INCLUSIVE)).toBe(1000);
+    expect(describeVat(exempt, TaxDisplayMode.INCLUSIVE)).toBe('');
+  });
+
+  it('moves the compare-at price with the selling price', () => {
+    expect(withShelfPrices(taxed, TaxDisplayMode.INCLUSIVE)).toMatchObject({ unitPrice: 1075, compareAtPrice: 1290 });
+  });
+
+  it('says whether VAT is on top or included', () => {
+    expect(describeVat(taxed, TaxDisplayMode.EXCLUSIVE)).toBe('+7.5% VAT');
+    expect(describeVat(taxed, TaxDisplayMode.INCLUSIVE)).toBe('incl. 7.5% VAT');
+  });
+});
+
+describe('getVatBreakdown', () => {
+  it('groups lines by rate, highest first', () => {
+    expect(getVatBreakdown([
+      { vatRate: 7.5, netKobo: 100000, taxKobo: 7500 },
+      { vatRate: 0, netKobo: 50000, taxKobo: 0 },
+      { vatRate: 7.5, netKobo: 20000, taxKobo: 1500 },
+      { vatRate: 15, netKobo: 10000, taxKobo: 1500 },
+    ])).toEqual([
+      { rate: 15, netKobo: 10000, taxKobo: 1500 },
+      { rate: 7.5, netKobo: 120000, taxKobo: 9000 },
+      { rate: 0, netKobo: 50000, taxKobo: 0 },
+    ]);
+  });
+});
+
+describe('getVatSummary', () => {
+  const breakdown = [
+    { rate: 15, netKobo: 10000, taxKobo: 1500 },
+    { rate: 7.5, netKobo: 120000, taxKobo: 9000 },
+    { rate: 0, netKobo: 50000, taxKobo: 0 },
+  ];
+
+  it('lists each rate that was charged', () => {
+    expect(getVatSummary(breakdown, 10500)).toEqual([
+      { label: 'VAT 15%', netKobo: 10000, taxKobo: 1500 },
+      { label: 'VAT 7.5%', netKobo: 120000, taxKobo: 9000 },
+    ]);
+  });
+
+  it('falls back to one VAT line when the rates don\'t add up to the tax charged', () => {
+    expect(getVatSummary(breakdown, 11000)).toEqual([{ label: 'VAT', taxKobo: 11000 }]);
+    expect(getVatSummary([], 750)).toEqual([{ label: 'VAT', taxKobo: 750 }]);
+  });
+
+  it('shows nothing when no VAT was charged', () => {
+    expect(getVatSummary(breakdown, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * VAT display: whether the customer sees prices with VAT already in them, and
+ * how the VAT on an order splits across rates.
+ *
+ * Only presentation changes with the mode. The server always prices goods
+ * ex-VAT and adds tax per line, so totals come out the same either way;
+ * inclusive stores just fold the VAT into the prices they show.
+ */
+import type { Product } from '@/types/product.types';
+import type { Store } from '@/types/store.types';
+import { TaxDisplayMode } from '@/types/store.types';
+import { DEFAULT_CURRENCY } from './currency';
+import { fromMajor, money, percentage, toMajor } from './money';
+
+type TaxedProduct = Pick<Product, 'taxable' | 'vatRate'>;
+
+export interface VatLine {
+    vatRate: number;
+    /** Goods value the VAT was charged on */
+    netKobo: number;
+    taxKobo: number;
+}
+
+export interface VatBreakdownRow {
+    rate: number;
+    netKobo: number;
+    taxKobo: number;
+}
+
+export interface VatSummaryRow {
+    label: string;
+    /** Absent when the server didn't say what the VAT was charged on */
+    netKobo?: number;
+    taxKobo: number;
+}
+
+export function getTaxDisplayMode(store: Pick<Store, 'taxDisplayMode'>): TaxDisplayMode {
+    return store.taxDisplayMode ?? TaxDisplayMode.EXCLUSIVE;
+}
+
+export function getVatRate(product: TaxedProduct): number {
+    return product.taxable && product.vatRate > 0 ? product.vatRate : 0;
+}
+
+/**
+ * A naira price as the store shows it: with the product's VAT added when inclusive.
+ */
+export function toShelfPrice(
+    amount: number,
+    product: TaxedProduct,
+    mode: TaxDisplayMode,
+    currency: string = DEFAULT_CURRENCY
+): number {
+    const rate = getVatRate(product);
+    if (mode !== TaxDisplayMode.INCLUSIVE || rate === 0) return amount;
+    return toMajor(percentage(fromMajor(amount, currency), 100 + rate));
+}
+
+/**
+ * A unit price in kobo as the store shows it.
+ */
+export function toShelfPriceKobo(
+    unitPriceKobo: number,
+    vatRate: number,
+    mode: TaxDisplayMode,
+    currency: string = DEFAULT_CURRENCY
+): number {
+    if (mode !== TaxDisplayMode.INCLUSIVE || vatRate <= 0) return unitPriceKobo;
+    return percentage(money(unitPriceKobo, currency), 100 + vatRate).amount;
+}
+
+/**
+ * The product with its selling and compare-at prices switched to the display
+ * mode, ready for sale and promotion pricing on top.
+ */
+export function withShelfPrices<T extends TaxedProduct & Pick<Product, 'unitPrice' | 'compareAtPrice'>>(
+    product: T,
+    mode: TaxDisplayMode,
+    currency: string = DEFAULT_CURRENCY
+): T {
+    if (mode !== TaxDisplayMode.INCLUSIVE || getVatRate(product) === 0) return product;
+    return {
+        ...product,
+        unitPrice: toShelfPrice(product.unitPrice, product, mode, currency),
+        compareAtPrice: product.compareAtPrice !== undefined
+            ? toShelfPrice(product.compareAtPrice, product, mode, currency)
+            : undefined,
+    };
+}
+
+/**
+ * "+7.5% VAT" when VAT comes on top, "incl. 7.5% VAT" when it's already in the price.
+ */
+export function describeVat(product: TaxedProduct, mode: TaxDisplayMode): string {
+    const rate = getVatRate(product);
+    if (rate === 0) return '';
+    return mode === TaxDisplayMode.INCLUSIVE ? `incl. ${rate}% VAT` : `+${rate}% VAT`;
+}
+
+/**
+ * VAT grouped by rate, highest rate first. Zero-rated goods get their own row
+ * so the net amounts add up to the whole order.
+ */
+export function getVatBreakdown(lines: VatLine[]): VatBreakdownRow[] {
+    const byRate = new Map<number, VatBreakdownRow>();
+    lines.forEach((line) => {
+        const row = byRate.get(line.vatRate) ?? { rate: line.vatRate, netKobo: 0, taxKobo: 0 };
+        row.netKobo += line.netKobo;
+        row.taxKobo += line.taxKobo;
+        byRate.set(line.vatRate, row);
+    });
+    return Array.from(byRate.values()).sort((a, b) => b.rate - a.rate);
+}
+
+/** "VAT 7.5%" — the label for one breakdown row */
+export function formatVatRate(rate: number): string {
+    return `VAT ${rate}%`;
+}
+
+/**
+ * The VAT rows to show under a total: one per rate charged, or a single "VAT"
+ * row when the lines don't account for the whole tax (older orders, quotes
+ * without rates), so the rows always add up to the figure that was charged.
+ */
+export function getVatSummary(breakdown: VatBreakdownRow[], taxKobo: number): VatSummaryRow[] {
+    if (taxKobo <= 0) return [];
+    const charged = breakdown.filter((row) => row.taxKobo > 0);
+    const accounted = charged.reduce((total, row) => total + row.taxKobo, 0);
+    if (charged.length === 0 || accounted !== taxKobo) return [{ label: 'VAT', taxKobo }];
+    return charged.map((row) => ({ label: formatVatRate(row.rate), netKobo: row.netKobo, taxKobo: row.taxKobo }));
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getColumnCount, getGridHeight, getRowCount, getVisibleRows } from './virtual-grid';
+
+describe('getColumnCount', () => {
+  it('fits as many minimum-width columns as the gaps allow', () => {
+    expect(getColumnCount(1048, 250, 16)).toBe(4);
+    expect(getColumnCount(1047, 250, 16)).toBe(3);
+  });
+
+  it('always has at least one column', () => {
+    expect(getColumnCount(200, 250, 16)).toBe(1);
+    expect(getColumnCount(0, 250, 16)).toBe(1);
+  });
+});
+
+describe('getVisibleRows', () => {
+  const stride = 400; // 384px row + 16px gap
+
+  it('renders the rows in view plus overscan', () => {
+    // Viewport from 1000px to 1800px into the grid: rows 2–4
+    expect(getVisibleRows(1000, 1800, stride, 100, 2)).toEqual({ start: 0, end: 7 });
+    expect(getVisibleRows(4000, 4800, stride, 100, 1)).toEqual({ start: 9, end: 14 });
+  });
+
+  it('starts at the first row while the grid is still below the fold', () => {
+    expect(getVisibleRows(-600, 200, stride, 100, 0)).toEqual({ start: 0, end: 1 });
+  });
+
+  it('never runs past the last row', () => {
+    expect(getVisibleRows(3800, 4600, stride, 10, 2)).toEqual({ start: 7, end: 10 });
+    expect(getVisibleRows(0, 800, stride, 0)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe('grid size', () => {
+  it('counts partial rows and leaves no gap after the last', () => {
+    expect(getRowCount(25, 4)).toBe(7);
+    expect(getGridHeight(7, 384, 16)).toBe(7 * 384 + 6 * 16);
+    expect(getGridHeight(0, 384, 16)).toBe(0);
+  });
+});
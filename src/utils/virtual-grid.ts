@@ -0,0 +1,50 @@
+/**
+ * Windowing for long product grids: only the rows near the viewport are
+ * rendered, with spacers standing in for the rest so the scrollbar stays true.
+ *
+ * Rows share one height (the tallest card seen so far), which keeps the maths
+ * to a multiplication and means a row never moves once it is on screen.
+ */
+
+export interface RowRange {
+    /** First row to render */
+    start: number;
+    /** One past the last row to render */
+    end: number;
+}
+
+/** How many columns of at least minColumnWidth fit, matching repeat(auto-fill, minmax(...)) */
+export function getColumnCount(width: number, minColumnWidth: number, gap: number): number {
+    if (width <= 0) return 1;
+    return Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+}
+
+export function getRowCount(itemCount: number, columns: number): number {
+    return Math.ceil(itemCount / Math.max(1, columns));
+}
+
+/**
+ * Rows overlapping the visible part of the grid, plus overscan rows either
+ * side. top and bottom are the viewport edges measured from the top of the
+ * grid, so top is negative while the grid is still below the fold.
+ */
+export function getVisibleRows(
+    top: number,
+    bottom: number,
+    rowStride: number,
+    rowCount: number,
+    overscan: number = 2
+): RowRange {
+    if (rowCount === 0 || rowStride <= 0) return { start: 0, end: 0 };
+    const first = Math.floor(Math.max(0, top) / rowStride);
+    const last = Math.floor(Math.max(0, bottom) / rowStride);
+    return {
+        start: Math.min(rowCount, Math.max(0, first - overscan)),
+        end: Math.min(rowCount, last + 1 + overscan),
+    };
+}
+
+/** Full height of the grid: rows plus the gaps between them */
+export function getGridHeight(rowCount: number, rowHeight: number, gap: number): number {
+    return rowCount === 0 ? 0 : rowCount * rowHeight + (rowCount - 1) * gap;
+}
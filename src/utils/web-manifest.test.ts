@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { applyStoreManifest, buildStoreManifest, getThemeColor, toManifestHref } from './web-manifest';
+
+const store = {
+  storeName: 'Mama Put Kitchen',
+  storeSlug: 'mama-put',
+  description: 'Home-cooked meals',
+  logoUrl: 'https://cdn.example.com/logos/mama-put.png',
+  primaryColor: '#E4572E',
+} as never;
+
+describe('buildStoreManifest', () => {
+  it('installs the store under its own name, colour and logo', () => {
+    const manifest = buildStoreManifest(store, 'https://store.accurify.co');
+
+    expect(manifest).toMatchObject({
+      id: 'https://store.accurify.co/mama-put',
+      name: 'Mama Put Kitchen',
+      short_name: 'Mama Put Kit',
+      start_url: 'https://store.accurify.co/mama-put',
+      scope: 'https://store.accurify.co/mama-put',
+      theme_color: '#E4572E',
+    });
+    expect(manifest.icons.map((icon) => icon.src)).toEqual([
+      'https://cdn.example.com/logos/mama-put.png',
+      'https://store.accurify.co/a-quickstore.png',
+    ]);
+  });
+
+  it('falls back to the QuickStore icon and colour', () => {
+    const plain = { ...(store as object), logoUrl: undefined, primaryColor: 'tomato' } as never;
+    const manifest = buildStoreManifest(plain, 'https://store.accurify.co');
+
+    expect(manifest.icons).toHaveLength(1);
+    expect(manifest.theme_color).toBe('#0f62fe');
+  });
+
+  it('only takes hex colours', () => {
+    expect(getThemeColor({ primaryColor: ' #abc ' })).toBe('#abc');
+    expect(getThemeColor({ primaryColor: '' })).toBe('#0f62fe');
+  });
+});
+
+describe('applyStoreManifest', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+  });
+
+  it('swaps in the store manifest and puts the old one back', () => {
+    document.head.innerHTML = '<link rel="manifest" href="/manifest.webmanifest"><meta name="theme-color" content="#0f62fe">';
+
+    const restore = applyStoreManifest(store, 'https://store.accurify.co');
+    const href = document.head.querySelector('link[rel="manifest"]')?.getAttribute('href');
+    expect(href).toBe(toManifestHref(buildStoreManifest(store, 'https://store.accurify.co')));
+    expect(document.head.querySelector('meta[name="theme-color"]')?.getAttribute('content')).toBe('#E4572E');
+
+    restore();
+    expect(document.head.querySelector('link[rel="manifest"]')?.getAttribute('href')).toBe('/manifest.webmanifest');
+    expect(document.head.querySelector('meta[name="theme-color"]')?.getAttribute('content')).toBe('#0f62fe');
+  });
+});
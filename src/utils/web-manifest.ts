@@ -0,0 +1,99 @@
+/**
+ * Web app manifests for store pages, so a store added to the home screen
+ * installs under its own name, colour and logo and opens straight into that
+ * store.
+ *
+ * index.html links the QuickStore manifest. A store page points that link at
+ * a manifest of its own, written as a data URL, and puts it back on leaving.
+ */
+import type { Store } from '@/types/store.types';
+
+export interface WebManifestIcon {
+    src: string;
+    sizes: string;
+    type?: string;
+    purpose?: string;
+}
+
+export interface WebManifest {
+    id: string;
+    name: string;
+    short_name: string;
+    description?: string;
+    start_url: string;
+    scope: string;
+    display: 'standalone';
+    background_color: string;
+    theme_color: string;
+    icons: WebManifestIcon[];
+}
+
+export const DEFAULT_THEME_COLOR = '#0f62fe';
+
+// Home screens cut labels off at around this length
+const SHORT_NAME_LENGTH = 12;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** The store's colour when it is one a manifest accepts, otherwise the QuickStore blue */
+export function getThemeColor(store: Pick<Store, 'primaryColor'>): string {
+    const color = store.primaryColor?.trim();
+    return color && HEX_COLOR.test(color) ? color : DEFAULT_THEME_COLOR;
+}
+
+/**
+ * Every URL is absolute: a manifest served as a data URL has no address of
+ * its own for relative ones to resolve against.
+ */
+export function buildStoreManifest(store: Store, origin: string): WebManifest {
+    const storeUrl = `${origin}/${store.storeSlug}`;
+    const icons: WebManifestIcon[] = [];
+    if (store.logoUrl) icons.push({ src: new URL(store.logoUrl, origin).href, sizes: 'any', purpose: 'any' });
+    // Launchers that can't use the logo still get an icon they can size
+    icons.push({ src: `${origin}/a-quickstore.png`, sizes: '500x500', type: 'image/png', purpose: 'any' });
+
+    return {
+        id: storeUrl,
+        name: store.storeName,
+        short_name: store.storeName.length > SHORT_NAME_LENGTH
+            ? store.storeName.slice(0, SHORT_NAME_LENGTH).trim()
+            : store.storeName,
+        description: store.description,
+        start_url: storeUrl,
+        // Product and order pages sit under the store's path, so they open in the app too
+        scope: storeUrl,
+        display: 'standalone',
+        background_color: '#ffffff',
+        theme_color: getThemeColor(store),
+        icons,
+    };
+}
+
+export function toManifestHref(manifest: WebManifest): string {
+    return `data:application/manifest+json,${encodeURIComponent(JSON.stringify(manifest))}`;
+}
+
+function setHeadAttribute(selector: string, attribute: string, value: string): () => void {
+    const element = document.head.querySelector(selector);
+    if (!element) return () => undefined;
+    const previous = element.getAttribute(attribute);
+    element.setAttribute(attribute, value);
+    return () => {
+        if (previous === null) element.removeAttribute(attribute);
+        else element.setAttribute(attribute, previous);
+    };
+}
+
+/**
+ * Point the page's manifest, theme colour and touch icon at the store's.
+ * Returns a function that restores what was there before.
+ */
+export function applyStoreManifest(store: Store, origin: string = window.location.origin): () => void {
+    const manifest = buildStoreManifest(store, origin);
+    const restores = [
+        setHeadAttribute('link[rel="manifest"]', 'href', toManifestHref(manifest)),
+        setHeadAttribute('meta[name="theme-color"]', 'content', manifest.theme_color),
+    ];
+    if (store.logoUrl) restores.push(setHeadAttribute('link[rel="apple-touch-icon"]', 'href', manifest.icons[0].src));
+    return () => restores.forEach((restore) => restore());
+}